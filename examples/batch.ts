@@ -23,9 +23,7 @@ async function createAndRun(spark: SparkClient) {
 
   const pipeline = spark.batch.of(batch.data.id);
   const submission = await pipeline.push({
-    inputs: [
-      /* json or columnar data */
-    ],
+    inputs: [/* json or columnar data */],
   });
 
   console.log(submission.data);
@@ -47,7 +45,20 @@ async function createAndRun(spark: SparkClient) {
   print(state.data);
 }
 
+async function run(spark: SparkClient) {
+  async function* source() {
+    yield [/* json or columnar data */];
+  }
+
+  const run = spark.batch.run('my-folder/my-service', source(), { pollInterval: 2000 });
+  for await (const { chunkId, outputs } of run) {
+    console.log(chunkId, outputs);
+  }
+  console.log(run.pipeline?.stats);
+}
+
 export default {
   create,
   createAndRun,
+  run,
 };
@@ -49,3 +49,4 @@ ImpEx.downloadWasm(spark);
 
 Batch.create(spark);
 Batch.createAndRun(spark);
+Batch.run(spark);
@@ -40,11 +40,12 @@ async function main() {
   // ---------------- You do NOT need to modify below this line ----------------
   const writer = createWriteStream(join(basePath, new Date().toISOString() + '_results.json'));
   const logger = new Logger('sync-batch');
-  const spark = new Spark({ ...sparkOptions, logger: { logger } });
+  // Stay within the tenant's rate limit (e.g., 10 requests per second).
+  const spark = new Spark({ ...sparkOptions, logger: { logger }, limiter: { rate: 10 } });
   const service = spark.service;
 
   // This helps keep track of the request ID for each API call (not required).
-  spark.config.interceptors.add({
+  spark.use({
     beforeRequest: (req) => {
       logger.log(`submitting request <${req.headers?.['x-request-id']}>`);
       return req;
@@ -44,7 +44,7 @@ async function main() {
   const spark = new Spark({ ...sparkOptions, logger: { logger } });
 
   // This helps keep track of the request ID for each API call (not required).
-  spark.config.interceptors.add({
+  spark.use({
     beforeRequest: (req) => {
       logger.log(`submitting request <${req.headers?.['x-request-id']}>`);
       return req;
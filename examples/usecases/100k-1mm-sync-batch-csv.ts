@@ -137,6 +137,7 @@ main();
  */
 // import { parentPort } from 'worker_threads';
 // import Spark from '@cspark/sdk';
+// import { FileTokenStore } from '@cspark/sdk/tokens';
 
 // import { Inputs, Outputs } from './main-thread.ts';
 
@@ -146,6 +147,7 @@ main();
 //   const spark = new Spark({
 //     baseUrl: 'my base url',
 //     apiKey: 'my api key', // or use OAuth2 client credentials.
+//     tokenStore: new FileTokenStore(), // lets workers share the same OAuth2 access token.
 //     timeout: 2 * 60 * 1000, // 2 minutes (in milliseconds)
 //   });
 
@@ -52,7 +52,7 @@ async function main() {
   const service = spark.service;
 
   // This helps keep track of the request ID for each API call (not required).
-  spark.config.interceptors.add({
+  spark.use({
     beforeRequest: (req) => {
       logger.log(`submitting request <${req.headers?.['x-request-id']}>`);
       return req;
@@ -2,9 +2,9 @@
  * Execute sync batch of 1K-100K records using a chunk approach.
  *
  * This execution splits the data into chunks and submits each chunk as a separate
- * API call. This approach is more efficient than the submission of large bulk of
- * records in a single API call, as it reduces the risk of timeouts and improves
- * the overall performance.
+ * API call, several at a time (see `Batch.executeMany`). This approach is more efficient
+ * than the submission of large bulk of records in a single API call, as it reduces the
+ * risk of timeouts and improves the overall performance.
  *
  * This example also assumes that the data is coming from a data file (JSON format)
  * and will output the results to a file in JSON format. If you need to process
@@ -22,6 +22,7 @@ import { join } from 'path';
  * - `sparkOptions`: Spark settings (base URL, authentication and timeout)
  * - `serviceUri`: locate service to execute (folder and service name)
  * - `chunkSize`: number of records to process in each chunk
+ * - `concurrency`: number of chunks to process at once
  *
  * If you are using TypeScript, you may choose to define the input and output schemas:
  * - Inputs: input schema
@@ -32,6 +33,7 @@ async function main() {
   const sourcePath = join(basePath, 'my-data-source.json');
   const serviceUri = 'my-folder/my-service';
   const chunkSize = 1000;
+  const concurrency = 4;
   const sparkOptions: SparkOptions = {
     baseUrl: 'my base url',
     token: 'my bearer token',
@@ -45,7 +47,7 @@ async function main() {
   const batch = spark.service.batch;
 
   // This helps keep track of the request ID for each API call (not required).
-  spark.config.interceptors.add({
+  spark.use({
     beforeRequest: (req) => {
       logger.log(`submitting request <${req.headers?.['x-request-id']}>`);
       return req;
@@ -54,33 +56,27 @@ async function main() {
 
   // 1. Read data from a source file
   const dataset = readFile(sourcePath);
-  const total = dataset.length;
-  const batchSize = Math.ceil(total / chunkSize);
+  logger.log(`${dataset.length} records found in ${sourcePath}`);
+
+  // 2. Execute sync batch chunk by chunk and save results to a file (in input order)
+  const execution = batch.executeMany<Inputs, Outputs>(serviceUri, {
+    records: dataset,
+    chunkSize,
+    concurrency,
+    continueOnError: true,
+  });
 
-  logger.log(`${total} records found in ${sourcePath}`);
   writer.write('[\n');
-
-  // 2. Execute sync batch and save results to a file
-  for (let i = 0; i < batchSize; i++) {
-    // Alternatively, read the file in chunks to avoid memory issues
-    const start = i * chunkSize;
-    const end = Math.min(start + chunkSize, total);
-    const chunk = dataset.slice(start, end);
-
-    try {
-      const response = await batch.execute<Inputs, Outputs>(serviceUri, { inputs: chunk });
-
-      writer.write(JSON.stringify({ inputs: chunk, ...response.data }, null, 2) + (i < batchSize - 1 ? ',\n' : ''));
-      logger.log(`chunk ${i + 1} (${chunk.length} records) processed successfully`);
-    } catch (e) {
-      logger.error(`failed to process chunk ${i + 1} (${chunk.length} records)`);
-      console.error(e);
-    }
+  for await (const result of execution) {
+    if (result.error) logger.error(`failed to process record ${result.index}: ${result.error.message}`);
+    writer.write((result.index > 0 ? ',\n' : '') + JSON.stringify(result, null, 2));
   }
-
   writer.write('\n]');
   writer.end();
 
+  const { records, chunks, failed } = execution.summary;
+  logger.log(`${records} records processed in ${chunks} chunks (${failed} failed)`);
+
   // 3. Save logs to a file
   logger.dump(basePath);
 }
@@ -1,47 +1,112 @@
-import Utils, { Maybe, StringUtils } from './utils';
-import { ENV_VARS } from './constants';
+import Utils, { Maybe, NumberUtils, StringUtils, loadModule } from './utils';
+import { DEFAULT_OAUTH_REFRESH_SKEW, ENV_VARS } from './constants';
 import { SparkError } from './error';
 import { Config } from './config';
 import { Logger } from './logger';
 
+import { StoredToken, TokenStore, getDefaultTokenStore } from './tokens';
 import { OAuth2 as OAuthManager } from './resources/oauth2';
+import { calculateMd5Hash } from './http';
 
 export interface OAuthMethod {
   /**
    * The API key (a.k.a synthetic key) to use for each request, if any.
    * By default, it'll be read from `process.env['CSPARK_API_KEY']`.
+   *
+   * It can also be a (sync or async) provider to support key rotation.
+   * @see Credential for more details.
    */
-  apiKey?: Maybe<string>;
+  apiKey?: Maybe<Credential>;
 
   /**
    * The bearer token to use for requests, if any.
    * By default, it'll be read from `process.env['CSPARK_BEARER_TOKEN']`.
+   *
+   * It can also be a (sync or async) provider to support token rotation.
+   * @see Credential for more details.
    */
-  token?: Maybe<string>;
+  token?: Maybe<Credential>;
 
   /**
-   * When using OAuth, client ID and secret are required.
+   * When using OAuth, the client ID is required, along with the credentials of
+   * the chosen flow (e.g., the client secret for the client credentials flow).
    *
-   * You can provide the client ID and secret directly, or you can provide a
-   * file path to a JSON file containing the client ID and secret.
+   * You can provide the OAuth credentials directly, or you can provide a file path
+   * to a JSON file containing them.
    * The file path can also be set using the `CSPARK_OAUTH_PATH` environment variable.
    */
-  oauth?: Readonly<
-    | {
-        /**
-         * The client ID to use for generating OAuth tokens.
-         * By default, it'll be read from `process.env['CSPARK_CLIENT_ID']`.
-         */
-        clientId: string;
-
-        /**
-         * The client secret to use for generating OAuth tokens.
-         * By default, it'll be read from `process.env['CSPARK_CLIENT_SECRET']`.
-         */
-        clientSecret: string;
-      }
-    | string
-  >;
+  oauth?: Readonly<OAuthCredentials | string> | OAuth;
+
+  /**
+   * The store used to persist OAuth access tokens (defaults to an in-memory store
+   * shared by all clients of the current process).
+   *
+   * Tokens are keyed by tenant and client ID, and reused until they expire.
+   * @see FileTokenStore to share tokens across processes.
+   */
+  tokenStore?: TokenStore;
+}
+
+/**
+ * A function providing a credential (e.g., reading it from a vault or a sidecar).
+ */
+export type CredentialProvider = () => Maybe<string> | Promise<Maybe<string>>;
+
+/**
+ * An API key or bearer token, which can be:
+ * - a fixed string;
+ * - a provider invoked before every request;
+ * - a provider whose value is cached for `ttl` seconds.
+ *
+ * Providers are invoked again when the API rejects the credential (401).
+ */
+export type Credential = string | CredentialProvider | { provider: CredentialProvider; ttl?: number };
+
+/**
+ * OAuth2 client settings and the credentials required by the chosen flow.
+ */
+export interface OAuthCredentials {
+  /**
+   * The client ID to use for generating OAuth tokens.
+   * By default, it'll be read from `process.env['CSPARK_CLIENT_ID']`.
+   */
+  clientId: string;
+
+  /**
+   * The client secret to use for generating OAuth tokens.
+   * By default, it'll be read from `process.env['CSPARK_CLIENT_SECRET']`.
+   *
+   * It is required for the client credentials flow only; public clients (e.g.,
+   * browser tools using the authorization code flow) do not have one.
+   */
+  clientSecret?: string;
+
+  /**
+   * The OAuth2 flow to use for generating tokens.
+   *
+   * When omitted, it is inferred from the provided credentials: `password` if
+   * username and password are set, `refresh_token` if a refresh token is set,
+   * and `client_credentials` otherwise.
+   */
+  flow?: OAuthFlow;
+
+  /** The username of the Spark user (password flow). */
+  username?: string;
+
+  /** The password of the Spark user (password flow). */
+  password?: string;
+
+  /** An existing refresh token to obtain access tokens from (refresh token flow). */
+  refreshToken?: string;
+
+  /** The space-separated scopes to request, if any. */
+  scope?: string;
+
+  /**
+   * How early (in seconds) an access token should be refreshed before it expires.
+   * Defaults to 60 seconds.
+   */
+  refreshSkew?: number;
 }
 
 /**
@@ -53,29 +118,30 @@ export interface OAuthMethod {
  * NOTE: The order of precedence is API key > Bearer token > OAuth.
  */
 export class Authorization {
-  readonly #apiKey!: Maybe<string>;
-  readonly token!: Maybe<string>;
+  readonly #apiKey!: Maybe<string | DynamicCredential>;
+  readonly #token!: Maybe<string | DynamicCredential>;
   readonly oauth!: Maybe<OAuth>;
 
-  private constructor({ apiKey, token, oauth }: OAuthMethod) {
-    const clientId = Utils.readEnv(ENV_VARS.CLIENT_ID);
-    const clientSecret = Utils.readEnv(ENV_VARS.CLIENT_SECRET);
-    const oauthPath = Utils.readEnv(ENV_VARS.OAUTH_PATH);
+  private constructor({ apiKey, token, oauth, tokenStore }: OAuthMethod) {
+    const toBearer = (value: Maybe<string>) => value?.replace(/bearer/i, '')?.trim();
 
-    this.#apiKey = apiKey;
-    this.token = token?.replace(/bearer/i, '')?.trim();
-    this.oauth = oauth
-      ? OAuth.from(oauth!)
-      : clientId && clientSecret
-        ? new OAuth({ clientId, clientSecret })
-        : oauthPath
-          ? OAuth.fromFile(oauthPath)
-          : undefined;
+    this.#apiKey = DynamicCredential.from(apiKey) ?? (apiKey as Maybe<string>);
+    this.#token = DynamicCredential.from(token, toBearer) ?? toBearer(token as Maybe<string>);
+    const credentials = oauth ?? OAuth.readEnv();
+    this.oauth = credentials ? OAuth.from(credentials, tokenStore) : undefined;
   }
 
   get apiKey(): string | undefined {
-    if (this.#apiKey && !this.isOpen) return Utils.mask(this.#apiKey);
-    return this.#apiKey;
+    const apiKey = DynamicCredential.valueOf(this.#apiKey);
+    if (apiKey && !this.isOpen) return Utils.mask(apiKey);
+    return apiKey;
+  }
+
+  /**
+   * The bearer token (its latest value when provided dynamically).
+   */
+  get token(): string | undefined {
+    return DynamicCredential.valueOf(this.#token);
   }
 
   /**
@@ -85,31 +151,91 @@ export class Authorization {
    * @see https://docs.coherent.global/spark-apis/public-apis for more information.
    */
   get isOpen(): boolean {
-    return this.#apiKey === 'open' || this.token === 'open';
+    return this.#apiKey === 'open' || this.#token === 'open';
   }
 
   /**
    * Whether any authorization method is defined.
    */
   get isEmpty(): boolean {
-    return !this.#apiKey && !this.token && !this.oauth;
+    return !this.#apiKey && !this.#token && !this.oauth;
+  }
+
+  /**
+   * Whether the credentials can be renewed upon unauthorized (401) responses, i.e.,
+   * when using OAuth or a credential provider.
+   */
+  get isRenewable(): boolean {
+    const type = this.type;
+    if (type === 'apiKey') return this.#apiKey instanceof DynamicCredential;
+    if (type === 'token') return this.#token instanceof DynamicCredential;
+    return type === 'oauth';
   }
 
   /**
    * The type of authorization method provided.
    * @returns {'apiKey' | 'token' | 'oauth'}
    */
-  get type(): keyof OAuthMethod | undefined {
-    return this.#apiKey ? 'apiKey' : this.token ? 'token' : this.oauth ? 'oauth' : undefined;
+  get type(): Exclude<keyof OAuthMethod, 'tokenStore'> | undefined {
+    return this.#apiKey ? 'apiKey' : this.#token ? 'token' : this.oauth ? 'oauth' : undefined;
   }
 
   get asHeader(): Record<string, string> {
-    if (this.#apiKey && !this.isOpen) return { 'x-synthetic-key': this.#apiKey };
-    if (this.token && !this.isOpen) return { Authorization: `Bearer ${this.token}` };
-    if (this.oauth) return { Authorization: `Bearer ${this.oauth.accessToken}` };
+    const type = this.type;
+    if (type === 'apiKey' && !this.isOpen) {
+      const apiKey = DynamicCredential.valueOf(this.#apiKey);
+      return apiKey ? { 'x-synthetic-key': apiKey } : {};
+    }
+    if (type === 'token' && !this.isOpen) return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+    if (type === 'oauth' && this.oauth?.accessToken) return { Authorization: `Bearer ${this.oauth.accessToken}` };
     return {};
   }
 
+  /**
+   * Resolves the authorization header for the next request.
+   * @param {Config} config Spark configuration.
+   *
+   * Unlike `asHeader`, this makes sure the credentials are up to date, i.e., that
+   * credential providers are invoked (unless cached) and that a valid OAuth2 access
+   * token is lazily retrieved before the first request and refreshed ahead of its expiry.
+   */
+  async authorize(config: Config): Promise<Record<string, string>> {
+    const type = this.type;
+    if (type === 'apiKey' && this.#apiKey instanceof DynamicCredential) await this.#apiKey.resolve();
+    if (type === 'token' && this.#token instanceof DynamicCredential) await this.#token.resolve();
+    if (type === 'oauth') await this.oauth!.getAccessToken(config);
+    return this.asHeader;
+  }
+
+  /**
+   * Renews the credentials rejected by the API (401).
+   * @param {Config} config Spark configuration.
+   * @param {Record<string, string>} headers the headers of the rejected request.
+   */
+  async renew(config: Config, headers: Record<string, string> = {}): Promise<void> {
+    const bearer = headers['Authorization']?.replace(/^Bearer /, '');
+    const type = this.type;
+    if (type === 'apiKey' && this.#apiKey instanceof DynamicCredential)
+      this.#apiKey.invalidate(headers['x-synthetic-key']);
+    if (type === 'token' && this.#token instanceof DynamicCredential) this.#token.invalidate(bearer);
+    if (type === 'oauth') await this.oauth!.refreshToken(config, bearer);
+  }
+
+  /**
+   * Merges the given authorization methods with the current ones (e.g., when copying a config).
+   * @param {OAuthMethod} which the authorization methods to override.
+   *
+   * Unlike the `apiKey` getter, the original (unmasked) credentials and providers are kept.
+   */
+  copyWith(which: OAuthMethod = {}): OAuthMethod {
+    return {
+      apiKey: which.apiKey ?? DynamicCredential.sourceOf(this.#apiKey),
+      token: which.token ?? DynamicCredential.sourceOf(this.#token),
+      oauth: which.oauth ?? this.oauth,
+      tokenStore: which.tokenStore,
+    };
+  }
+
   static from(which: OAuthMethod): Authorization {
     const auth = new this(which);
     if (auth.isEmpty) {
@@ -126,29 +252,143 @@ export class Authorization {
   }
 }
 
+/**
+ * A credential obtained from a provider, optionally cached for a while.
+ */
+class DynamicCredential {
+  readonly ttl: number;
+  #value?: string;
+  #expiresAt?: number;
+  #pending?: Promise<Maybe<string>>;
+
+  private constructor(
+    readonly source: Exclude<Credential, string>,
+    private readonly normalize: (value: Maybe<string>) => Maybe<string>,
+  ) {
+    const ttl = typeof source === 'function' ? undefined : source.ttl;
+    this.ttl = NumberUtils.isPositive(ttl) ? ttl! : 0;
+  }
+
+  static from(
+    credential: Maybe<Credential>,
+    normalize: (value: Maybe<string>) => Maybe<string> = (value) => value,
+  ): DynamicCredential | undefined {
+    if (typeof credential === 'function') return new DynamicCredential(credential, normalize);
+    if (Utils.isObject(credential) && typeof credential.provider === 'function') {
+      return new DynamicCredential(credential, normalize);
+    }
+    return undefined;
+  }
+
+  static valueOf(credential: Maybe<string | DynamicCredential>): Maybe<string> {
+    return credential instanceof DynamicCredential ? credential.value : credential;
+  }
+
+  static sourceOf(credential: Maybe<string | DynamicCredential>): Maybe<Credential> {
+    return credential instanceof DynamicCredential ? credential.source : credential;
+  }
+
+  /** The latest value obtained from the provider, if any. */
+  get value(): Maybe<string> {
+    return this.#value;
+  }
+
+  /**
+   * Gets the cached value if still valid; otherwise, invokes the provider.
+   */
+  async resolve(): Promise<Maybe<string>> {
+    if (this.#value && this.#expiresAt !== undefined && Date.now() < this.#expiresAt) return this.#value;
+    if (this.ttl === 0) return this.#provide();
+    return (this.#pending ??= this.#provide().finally(() => (this.#pending = undefined)));
+  }
+
+  /**
+   * Discards the cached value so that the provider gets invoked again.
+   * @param {string} staleValue the rejected value; ignored if already replaced.
+   */
+  invalidate(staleValue?: string): void {
+    if (!staleValue || staleValue === this.#value) this.#expiresAt = undefined;
+  }
+
+  async #provide(): Promise<Maybe<string>> {
+    const provider = typeof this.source === 'function' ? this.source : this.source.provider;
+    try {
+      const value = this.normalize(await provider());
+      this.#value = value;
+      this.#expiresAt = this.ttl > 0 ? Date.now() + this.ttl * 1000 : undefined;
+      return value;
+    } catch (cause) {
+      throw SparkError.sdk({ message: 'failed to obtain credentials from provider', cause });
+    }
+  }
+}
+
 export class OAuth {
   readonly clientId: string;
-  readonly #clientSecret: string;
+  readonly #clientSecret?: string;
+  readonly #password?: string;
+  readonly #flow: OAuthFlow;
+  readonly username?: string;
+  readonly scope?: string;
   readonly filePath?: string | undefined;
+  readonly refreshSkew: number;
   #accessToken?: AccessToken;
+  #expiresAt?: number;
+  #refreshToken?: string;
+  #refreshExpiresAt?: number;
+  #subject?: string;
+  #pending?: Promise<AccessToken>;
 
-  constructor(props: Readonly<{ clientId: string; clientSecret: string }>) {
+  constructor(
+    props: Readonly<OAuthCredentials>,
+    readonly tokenStore: TokenStore = getDefaultTokenStore(),
+  ) {
     this.clientId = props.clientId;
     this.#clientSecret = props.clientSecret;
+    this.#password = props.password;
+    this.#refreshToken = props.refreshToken;
+    this.username = props.username;
+    this.scope = props.scope;
+    this.refreshSkew = NumberUtils.isPositive(props.refreshSkew) ? props.refreshSkew! : DEFAULT_OAUTH_REFRESH_SKEW;
+    this.#flow =
+      props.flow ??
+      (props.username && props.password ? 'password' : props.refreshToken ? 'refresh_token' : 'client_credentials');
+
+    const missing = ((): string | undefined => {
+      if (StringUtils.isEmpty(this.clientId)) return 'OAuth client ID is required';
+      switch (this.#flow) {
+        case 'client_credentials':
+          return StringUtils.isEmpty(this.#clientSecret) ? 'OAuth client ID and secret are required' : undefined;
+        case 'password':
+          return StringUtils.isEmpty(this.username) || StringUtils.isEmpty(this.#password)
+            ? 'username and password are required for the OAuth password flow'
+            : undefined;
+        case 'refresh_token':
+          return StringUtils.isEmpty(this.#refreshToken)
+            ? 'a refresh token is required for the OAuth refresh token flow'
+            : undefined;
+        case 'authorization_code':
+          return undefined;
+        default:
+          return `unsupported OAuth flow <${this.#flow}>; use authorization_code with PKCE instead`;
+      }
+    })();
 
-    if (StringUtils.isEmpty(this.clientId) || StringUtils.isEmpty(this.#clientSecret)) {
+    if (missing) {
       throw SparkError.sdk({
-        message: 'OAuth client ID and secret are required',
-        cause: JSON.stringify({ clientId: this.clientId, clientSecret: this.#clientSecret }),
+        message: missing,
+        cause: JSON.stringify({ clientId: this.clientId, clientSecret: this.clientSecret, flow: this.#flow }),
       });
     }
   }
 
-  static from(props: Readonly<{ clientId?: string; clientSecret?: string } | string>): OAuth {
-    if (Utils.isObject(props) && 'clientId' in props && 'clientSecret' in props) {
-      return new this({ clientId: props.clientId!, clientSecret: props.clientSecret! });
+  static from(props: Readonly<Partial<OAuthCredentials> | string> | OAuth, tokenStore?: TokenStore): OAuth {
+    if (props instanceof OAuth) {
+      return props; // shares the access token across configurations.
+    } else if (Utils.isObject(props) && 'clientId' in props) {
+      return new this(props as OAuthCredentials, tokenStore);
     } else if (StringUtils.isString(props)) {
-      return OAuth.fromFile(props as string);
+      return OAuth.fromFile(props as string, tokenStore);
     } else {
       throw SparkError.sdk({
         message: ''.concat(
@@ -161,7 +401,18 @@ export class OAuth {
     }
   }
 
-  static fromFile(filePath: string): OAuth {
+  /**
+   * Reads the OAuth credentials from the environment variables, if any: the client
+   * ID and secret, or else the path to a JSON file containing them.
+   */
+  static readEnv(): Readonly<OAuthCredentials> | string | undefined {
+    const clientId = Utils.readEnv(ENV_VARS.CLIENT_ID);
+    const clientSecret = Utils.readEnv(ENV_VARS.CLIENT_SECRET);
+    const oauthPath = Utils.readEnv(ENV_VARS.OAUTH_PATH);
+    return clientId && clientSecret ? { clientId, clientSecret } : oauthPath || undefined;
+  }
+
+  static fromFile(filePath: string, tokenStore?: TokenStore): OAuth {
     if (Utils.isBrowser()) {
       throw SparkError.sdk({
         message: 'OAuth path is not supported in browser-like environments',
@@ -170,7 +421,7 @@ export class OAuth {
     }
 
     try {
-      return new this(JSON.parse(Utils.readFile(filePath)));
+      return new this(JSON.parse(Utils.readFile(filePath)), tokenStore);
     } catch (cause) {
       throw SparkError.sdk({
         message: `failed to create oauth credentials from file <${filePath}>`,
@@ -179,8 +430,8 @@ export class OAuth {
     }
   }
 
-  get clientSecret(): string {
-    return Utils.mask(this.#clientSecret);
+  get clientSecret(): string | undefined {
+    return this.#clientSecret ? Utils.mask(this.#clientSecret) : undefined;
   }
 
   get version(): string {
@@ -188,13 +439,42 @@ export class OAuth {
   }
 
   get flow(): OAuthFlow {
-    return 'client_credentials';
+    return this.#flow;
   }
 
   get accessToken(): Maybe<string> {
     return this.#accessToken?.accessToken;
   }
 
+  /**
+   * The time (in milliseconds since epoch) at which the access token expires, if known.
+   */
+  get expiresAt(): number | undefined {
+    return this.#expiresAt;
+  }
+
+  /**
+   * Whether the access token is missing or about to expire (within the refresh skew).
+   */
+  get isExpired(): boolean {
+    return !this.accessToken || this.#isExpiring(this.#expiresAt);
+  }
+
+  #isExpiring(expiresAt: number | undefined): boolean {
+    return expiresAt !== undefined && Date.now() >= expiresAt - this.refreshSkew * 1000;
+  }
+
+  /**
+   * Gets a valid access token, retrieving a new one if missing or about to expire.
+   * @param {Config} config Spark configuration.
+   *
+   * A valid token found in the token store is reused instead of requesting a new one.
+   */
+  async getAccessToken(config: Config): Promise<string> {
+    if (this.isExpired) await this.#singleFlight(() => this.#restoreToken(config));
+    return this.accessToken!;
+  }
+
   toString(): string {
     return JSON.stringify({
       clientId: this.clientId,
@@ -207,22 +487,180 @@ export class OAuth {
     return { clientId: this.clientId, clientSecret: this.#clientSecret };
   }
 
+  /**
+   * Builds the Keycloak URL where to redirect the user to sign in (authorization code flow).
+   * @param {Config} config Spark configuration.
+   * @param {AuthorizationUrlOptions} options the redirect URI, PKCE challenge, etc.
+   * @see OAuth.createPkce to generate the PKCE code verifier and challenge.
+   */
+  getAuthorizationUrl(config: Config, options: AuthorizationUrlOptions): string {
+    const { redirectUri, codeChallenge, state, scope = this.scope } = options;
+    return new OAuthManager(config).getAuthorizationUrl({
+      response_type: 'code',
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      ...(state ? { state } : {}),
+      ...(scope ? { scope } : {}),
+    });
+  }
+
+  /**
+   * Exchanges an authorization code for an access token (authorization code flow).
+   * @param {Config} config Spark configuration.
+   * @param {CodeExchangeOptions} options the code received on the redirect URI,
+   * the PKCE code verifier and the redirect URI used to obtain the code.
+   *
+   * The obtained refresh token is later used to refresh the access token.
+   *
+   * Unlike the other token requests, an exchange is never shared with the one in
+   * flight (if any), which is awaited first since it does not carry this code.
+   */
+  async exchangeCode(config: Config, { code, codeVerifier, redirectUri }: CodeExchangeOptions): Promise<AccessToken> {
+    while (this.#pending) await this.#pending.catch(() => undefined);
+    return this.#singleFlight(() =>
+      this.#requestToken(config, {
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: codeVerifier,
+        redirect_uri: redirectUri,
+      }),
+    );
+  }
+
   /**
    * Retrieves an OAuth2 access token using the client ID and secret.
    * @param {Config} config Spark configuration.
    *
    * When the access token is expired, the client will automatically refresh it
    * before making the next request using this method.
+   *
+   * Concurrent calls share the same in-flight token request.
    */
   async retrieveToken(config: Config): Promise<AccessToken> {
+    return this.#singleFlight(() => this.#requestToken(config));
+  }
+
+  #singleFlight(request: () => Promise<AccessToken>): Promise<AccessToken> {
+    return (this.#pending ??= request().finally(() => (this.#pending = undefined)));
+  }
+
+  /**
+   * The key of this client's token in the token store, i.e., the Keycloak realm, the
+   * client ID and, unless a service account, the user the token belongs to: the username
+   * or the token subject (or else a hash of the refresh token).
+   * @returns nothing if the user is unknown yet (e.g., not signed in).
+   */
+  async #storeKey(config: Config): Promise<string | undefined> {
+    const key = `${config.baseUrl.oauth2}:${this.clientId}`;
+    if (this.#flow === 'client_credentials') return key;
+    if (this.username) return `${key}:${this.username}`;
+    if (!this.#subject && this.#refreshToken) this.#subject = await calculateMd5Hash(this.#refreshToken);
+    return this.#subject ? `${key}:${this.#subject}` : undefined;
+  }
+
+  /**
+   * Reuses the stored token if valid and not rejected already; otherwise, requests a new one.
+   */
+  async #restoreToken(config: Config, staleToken: Maybe<string> = this.accessToken): Promise<AccessToken> {
+    const key = await this.#storeKey(config);
+    if (!key) return this.#requestToken(config);
+
+    const stored = await this.tokenStore.get(key).catch(() => {
+      Logger.of(config.logger).warn('failed to read OAuth2 access token from the token store');
+      return undefined;
+    });
+
+    if (stored?.accessToken?.accessToken && stored.accessToken.accessToken !== staleToken) {
+      if (!this.#isExpiring(stored.expiresAt)) return this.#adoptToken(stored);
+    }
+    return this.#requestToken(config);
+  }
+
+  #adoptToken({ accessToken, expiresAt, refreshExpiresAt }: StoredToken): AccessToken {
+    this.#accessToken = accessToken;
+    this.#expiresAt = expiresAt;
+    this.#subject = subjectOf(accessToken.accessToken) ?? this.#subject;
+    if (accessToken.refreshToken) {
+      this.#refreshToken = accessToken.refreshToken;
+      this.#refreshExpiresAt = refreshExpiresAt;
+    }
+    return accessToken;
+  }
+
+  /**
+   * Whether a refresh token is available and not yet expired.
+   */
+  get #canRefresh(): boolean {
+    if (!this.#refreshToken) return false;
+    return this.#refreshExpiresAt === undefined || Date.now() < this.#refreshExpiresAt;
+  }
+
+  /**
+   * The grant of the configured flow, used when no refresh token can be used.
+   */
+  get #grant(): TokenGrant {
+    switch (this.#flow) {
+      case 'password':
+        return { grant_type: 'password', username: this.username!, password: this.#password! };
+      case 'authorization_code':
+      case 'refresh_token':
+        throw SparkError.sdk({
+          message: ''.concat(
+            'no valid refresh token available; ',
+            this.#flow === 'authorization_code' ? 'the user needs to sign in again.' : 'provide a new refresh token.',
+          ),
+          cause: JSON.stringify({ clientId: this.clientId, flow: this.#flow }),
+        });
+      default:
+        return { grant_type: 'client_credentials' };
+    }
+  }
+
+  async #requestToken(config: Config, grant?: TokenGrant): Promise<AccessToken> {
     const logger = Logger.of(config.logger);
     logger.log('retrieving OAuth2 access token...');
 
+    const manager = new OAuthManager(config);
+    const request = async (grant: TokenGrant): Promise<AccessToken> => {
+      const requestedAt = Date.now();
+      const accessToken = await manager.requestAccessToken({ ...grant, ...(this.scope ? { scope: this.scope } : {}) });
+      if (!accessToken?.accessToken) throw new SparkError('no access token found');
+
+      const stored: StoredToken = {
+        accessToken,
+        expiresAt: NumberUtils.isPositive(accessToken.expiresIn)
+          ? requestedAt + accessToken.expiresIn * 1000
+          : undefined,
+        refreshExpiresAt: NumberUtils.isPositive(accessToken.refreshExpiresIn)
+          ? requestedAt + accessToken.refreshExpiresIn * 1000
+          : undefined, // e.g., offline tokens
+      };
+      this.#adoptToken(stored);
+      const key = await this.#storeKey(config);
+      if (key) {
+        await this.tokenStore.set(key, stored).catch(() => {
+          logger.warn('failed to save OAuth2 access token to the token store');
+        });
+      }
+      return accessToken;
+    };
+
     try {
-      const manager = new OAuthManager(config);
-      this.#accessToken = await manager.requestAccessToken();
-      if (!this.accessToken) throw new SparkError('no access token found');
-      return this.#accessToken!;
+      if (grant) return await request(grant);
+      if (!this.#canRefresh) return await request(this.#grant);
+
+      try {
+        return await request({ grant_type: 'refresh_token', refresh_token: this.#refreshToken! });
+      } catch (reason) {
+        // the refresh token may have been revoked; fall back to the flow's own grant.
+        const key = await this.#storeKey(config);
+        this.#refreshToken = this.#refreshExpiresAt = undefined;
+        if (key) await this.tokenStore.delete(key).catch(() => undefined);
+        if (this.#flow === 'client_credentials' || this.#flow === 'password') return await request(this.#grant);
+        throw reason;
+      }
     } catch (reason) {
       logger.warn('failed to retrieve OAuth2 access token');
       return Promise.reject(reason);
@@ -230,24 +668,106 @@ export class OAuth {
   }
 
   /**
-   * Refreshes the OAuth2 access token using the client ID and secret.
+   * Refreshes the OAuth2 access token using the refresh token if available, or
+   * the credentials of the configured flow otherwise.
    * @param {Config} config Spark configuration.
    *
-   * Currently, a wrapper around `retrieveToken` method.
+   * @param {string} staleToken The token rejected by the API, if any. When another
+   * request (or process sharing the token store) has already replaced it, no new
+   * token is requested.
    * @see OAuth#retrieveToken
    */
-  async refreshToken(config: Config): Promise<void> {
-    await this.retrieveToken(config);
+  async refreshToken(config: Config, staleToken?: string): Promise<void> {
+    if (staleToken && this.accessToken && staleToken !== this.accessToken) return;
+    await this.#singleFlight(() => this.#restoreToken(config, staleToken ?? this.accessToken));
+  }
+
+  /**
+   * Generates a PKCE code verifier and its S256 challenge (authorization code flow).
+   *
+   * Keep the code verifier (e.g., in the session storage) until the user gets
+   * redirected back with the authorization code, then pass it to `exchangeCode`.
+   */
+  static async createPkce(): Promise<PkceChallenge> {
+    const bytes = new Uint8Array(32);
+    let codeVerifier: string;
+    let codeChallenge: string;
+
+    if (Utils.isBrowser()) {
+      window.crypto.getRandomValues(bytes);
+      codeVerifier = toBase64Url(bytes);
+      const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+      codeChallenge = toBase64Url(new Uint8Array(digest));
+    } else {
+      const crypto = loadModule('crypto');
+      codeVerifier = toBase64Url(crypto.randomBytes(32));
+      codeChallenge = toBase64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+    }
+
+    return { codeVerifier, codeChallenge, codeChallengeMethod: 'S256' };
+  }
+}
+
+/**
+ * Reads the subject (`sub` claim) of a JWT access token, if any.
+ */
+function subjectOf(token: string): string | undefined {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { sub } = JSON.parse(Utils.isBrowser() ? atob(payload) : Buffer.from(payload, 'base64').toString());
+    return StringUtils.isString(sub) && !StringUtils.isEmpty(sub) ? sub : undefined;
+  } catch {
+    return undefined; // e.g., opaque tokens
   }
 }
 
+function toBase64Url(bytes: Uint8Array): string {
+  // `atob` and `btoa` are only global as of Node 16.
+  const base64 = Utils.isBrowser() ? btoa(String.fromCharCode(...bytes)) : Buffer.from(bytes).toString('base64');
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
 export interface AccessToken {
   readonly accessToken: string;
   readonly expiresIn: number;
+  readonly refreshToken?: string;
   readonly refreshExpiresIn: number;
   readonly tokenType: string;
   readonly notBeforePolicy: number;
   readonly scope: string;
 }
 
-type OAuthFlow = 'client_credentials' | 'authorization_code' | 'implicit' | 'password';
+export type OAuthFlow = 'client_credentials' | 'authorization_code' | 'implicit' | 'password' | 'refresh_token';
+
+/**
+ * The form parameters of a token request (e.g., `grant_type`, `code`, etc.).
+ */
+export type TokenGrant = { grant_type: OAuthFlow } & Record<string, string>;
+
+export interface PkceChallenge {
+  /** The random secret to keep until the authorization code is exchanged. */
+  readonly codeVerifier: string;
+  /** The SHA-256 hash of the code verifier (base64url-encoded). */
+  readonly codeChallenge: string;
+  readonly codeChallengeMethod: 'S256';
+}
+
+export interface AuthorizationUrlOptions {
+  /** The URI where the user gets redirected to with the authorization code. */
+  readonly redirectUri: string;
+  /** The PKCE code challenge. */
+  readonly codeChallenge: string;
+  /** An opaque value to protect against CSRF attacks, if any. */
+  readonly state?: string;
+  /** The space-separated scopes to request (defaults to the configured ones). */
+  readonly scope?: string;
+}
+
+export interface CodeExchangeOptions {
+  /** The authorization code received on the redirect URI. */
+  readonly code: string;
+  /** The PKCE code verifier used to build the code challenge. */
+  readonly codeVerifier: string;
+  /** The same redirect URI used to build the authorization URL. */
+  readonly redirectUri: string;
+}
@@ -0,0 +1,344 @@
+import { type HttpResponse, calculateMd5Hash } from './http';
+import { SparkError } from './error';
+import { Streamer } from './streaming';
+import { DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTL_IN_MS, DEFAULT_MEMO_TTL_IN_MS } from './constants';
+import { NumberUtils } from './utils';
+
+/**
+ * The endpoints whose responses may be cached.
+ *
+ * All of them are read-only except `execute`, which is never cached unless
+ * explicitly requested (see `CacheOptions.ttl`).
+ */
+export type CacheableEndpoint = 'schema' | 'metadata' | 'swagger' | 'versions' | 'execute';
+
+/**
+ * A cached response, along with its validator (`ETag`) and expiry.
+ */
+export interface CacheEntry {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+  readonly data: any;
+  /** The raw response body. */
+  readonly body: Uint8Array;
+  /** The entity tag used to revalidate the response once expired, if provided by the API. */
+  readonly etag?: string;
+  /** When the response expires (in milliseconds since the epoch). */
+  readonly expiresAt: number;
+}
+
+/**
+ * Where cached responses are kept (e.g., in memory, Redis, a file, etc.).
+ *
+ * Expired entries are still read so that they can be revalidated using their `ETag`;
+ * the store decides when to evict them.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * The settings of the response cache.
+ */
+export interface CacheOptions {
+  /**
+   * Where to keep cached responses (defaults to an in-memory LRU store).
+   */
+  readonly store?: CacheStore;
+
+  /**
+   * The maximum number of responses kept by the default in-memory store (defaults to 100).
+   */
+  readonly maxEntries?: number;
+
+  /**
+   * How long (in milliseconds) responses remain fresh: either one duration for all
+   * the read-only endpoints (defaults to 5 minutes), or a duration per endpoint.
+   * A duration of 0 disables caching for that endpoint. `execute` responses are
+   * only cached when given a duration of their own.
+   */
+  readonly ttl?: number | Partial<Record<CacheableEndpoint, number>>;
+}
+
+/**
+ * An in-memory store evicting the least recently used responses first.
+ */
+export class MemoryStore implements CacheStore {
+  readonly #entries = new Map<string, CacheEntry>();
+
+  /**
+   * @param {number} maxEntries - the maximum number of responses to keep
+   */
+  constructor(readonly maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || !NumberUtils.isPositive(maxEntries)) {
+      throw SparkError.sdk({ message: 'cache max entries must be a positive integer', cause: maxEntries });
+    }
+  }
+
+  /** The number of responses currently kept. */
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.#entries.get(key);
+    if (entry) {
+      // refresh its position as the most recently used.
+      this.#entries.delete(key);
+      this.#entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+    if (this.#entries.size > this.maxEntries) this.#entries.delete(this.#entries.keys().next().value!);
+  }
+
+  delete(key: string): void {
+    this.#entries.delete(key);
+  }
+
+  clear(): void {
+    this.#entries.clear();
+  }
+}
+
+/**
+ * A cache of API responses for read-only endpoints (e.g., service metadata, schema,
+ * Swagger documentation and versions).
+ *
+ * Fresh responses are served without any round-trip. Once expired, a response that
+ * came with an `ETag` is revalidated using `If-None-Match`, so that an unchanged
+ * resource (304 Not Modified) is served from the cache again. Like the rate limiter,
+ * a cache is shared by all the resources created from the same client (including
+ * copies of its configuration), and may be shared by several clients.
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  readonly ttl: Readonly<Record<CacheableEndpoint, number>>;
+
+  /**
+   * @param {CacheOptions} options - the cache settings
+   * @throws {SparkError} if any of the durations is not a positive number (or 0).
+   */
+  constructor(options: CacheOptions = {}) {
+    const { store, maxEntries, ttl = DEFAULT_CACHE_TTL_IN_MS } = options;
+    const defaults = typeof ttl === 'number' ? ttl : DEFAULT_CACHE_TTL_IN_MS;
+    const ttls = { schema: defaults, metadata: defaults, swagger: defaults, versions: defaults, execute: 0 };
+    if (typeof ttl === 'object') Object.assign(ttls, ttl);
+
+    for (const [name, value] of Object.entries(ttls)) {
+      if (value !== 0 && !NumberUtils.isPositive(value)) {
+        throw SparkError.sdk({ message: `cache ttl for ${name} must be a positive number or 0`, cause: value });
+      }
+    }
+
+    this.store = store ?? new MemoryStore(maxEntries);
+    this.ttl = ttls;
+  }
+
+  /**
+   * Builds a response cache from the given options; an existing cache is returned as-is.
+   */
+  static from(options: true | CacheOptions | ResponseCache): ResponseCache {
+    if (options instanceof ResponseCache) return options;
+    return new this(options === true ? {} : options);
+  }
+
+  /**
+   * Determines how long (in milliseconds) the responses of an endpoint remain fresh.
+   * @param {CacheableEndpoint} endpoint - the endpoint called
+   * @param {boolean} enabled - whether the caller opted in (`true`) or out (`false`) for this call;
+   * opting in caches endpoints that aren't cached by default (e.g., `execute`) for 5 minutes.
+   * @returns the duration, or 0 if the response should not be cached.
+   */
+  ttlFor(endpoint: CacheableEndpoint, enabled?: boolean): number {
+    if (enabled === false) return 0;
+    return this.ttl[endpoint] || (enabled ? DEFAULT_CACHE_TTL_IN_MS : 0);
+  }
+
+  /**
+   * Builds the cache key of a request.
+   *
+   * Request bodies (e.g., execution inputs) are hashed rather than kept as-is.
+   */
+  async keyFor(method: string, url: string, params: Record<string, string> = {}, body?: unknown): Promise<string> {
+    const query = new URLSearchParams(params).toString();
+    const key = `${method} ${url}${query ? `?${query}` : ''}`;
+    return body === undefined ? key : `${key} ${await calculateMd5Hash(JSON.stringify(body))}`;
+  }
+
+  /**
+   * Serves the response from the cache if fresh, or sends the request otherwise.
+   * @param {string} key - the cache key of the request
+   * @param {number} ttl - how long (in milliseconds) the response remains fresh
+   * @param {Function} send - sends the request with the given extra headers (e.g., `If-None-Match`)
+   */
+  async fetch<T>(
+    key: string,
+    ttl: number,
+    send: (headers: Record<string, string>) => Promise<HttpResponse<T>>,
+  ): Promise<HttpResponse<T>> {
+    const cached = await this.store.get(key);
+    if (cached && cached.expiresAt > Date.now()) return toResponse<T>(cached);
+
+    const response = await send(cached?.etag ? { 'If-None-Match': cached.etag } : {});
+    if (cached && response.status === 304) {
+      const etag = response.headers['etag'] ?? cached.etag;
+      await this.store.set(key, { ...cached, etag, expiresAt: Date.now() + ttl });
+      return toResponse<T>(cached);
+    }
+    if (response.status < 200 || response.status >= 300) return response;
+
+    const body = new Uint8Array(await Streamer.toBuffer(response.buffer));
+    const etag = response.headers['etag'];
+    const { status, headers, data } = response;
+    await this.store.set(key, { status, headers, data, body, etag, expiresAt: Date.now() + ttl });
+    return { status, headers, data, buffer: Streamer.fromBuffer(body) };
+  }
+
+  /**
+   * Discards all the cached responses.
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  toJson(): CacheOptions {
+    return { ttl: { ...this.ttl } };
+  }
+}
+
+/**
+ * The settings of the execution memo.
+ */
+export interface MemoOptions {
+  /**
+   * Where to keep memoized results (defaults to an in-memory LRU store).
+   */
+  readonly store?: CacheStore;
+
+  /**
+   * The maximum number of results kept by the default in-memory store (defaults to 100).
+   */
+  readonly maxEntries?: number;
+
+  /**
+   * How long (in milliseconds) results are memoized (defaults to 1 hour).
+   */
+  readonly ttl?: number;
+}
+
+/**
+ * What an execution result depends on, given a pinned version of a service.
+ */
+export interface MemoKey {
+  /** The UUID of the pinned version. */
+  readonly versionId: string;
+  /** The input data. */
+  readonly inputs: unknown;
+  /** The requested outputs and any other setting shaping the result (e.g., subservices). */
+  readonly outputs?: Record<string, unknown>;
+}
+
+/**
+ * A memo of service execution results, for repeated executions of the same inputs
+ * (e.g., what-if analysis).
+ *
+ * Results are keyed on the pinned version, the inputs and the requested outputs, so
+ * that they remain correct: unlike a service URI, a version ID always designates the
+ * same compiled model. Inputs are canonicalized beforehand, i.e., the order of their
+ * keys does not matter. Like the response cache, a memo is shared by all the resources
+ * created from the same client (including copies of its configuration).
+ */
+export class ExecutionMemo {
+  readonly store: CacheStore;
+  readonly ttl: number;
+
+  /**
+   * @param {MemoOptions} options - the memo settings
+   * @throws {SparkError} if the duration is not a positive number.
+   */
+  constructor(options: MemoOptions = {}) {
+    const { store, maxEntries, ttl = DEFAULT_MEMO_TTL_IN_MS } = options;
+    if (!NumberUtils.isPositive(ttl)) {
+      throw SparkError.sdk({ message: 'memo ttl must be a positive number', cause: ttl });
+    }
+
+    this.store = store ?? new MemoryStore(maxEntries);
+    this.ttl = ttl;
+  }
+
+  /**
+   * Builds an execution memo from the given options; an existing memo is returned as-is.
+   */
+  static from(options: true | MemoOptions | ExecutionMemo): ExecutionMemo {
+    if (options instanceof ExecutionMemo) return options;
+    return new this(options === true ? {} : options);
+  }
+
+  /**
+   * Builds the memo key of an execution, i.e., the hash of its canonicalized
+   * version, inputs and requested outputs.
+   */
+  async keyFor({ versionId, inputs, outputs = {} }: MemoKey): Promise<string> {
+    return `version/${versionId} ${await calculateMd5Hash(canonicalize({ inputs, outputs }))}`;
+  }
+
+  /**
+   * Gets the memoized result of an execution, if any and still fresh.
+   */
+  async get<T>(key: string): Promise<HttpResponse<T> | undefined> {
+    const entry = await this.store.get(key);
+    if (!entry) return;
+    if (entry.expiresAt > Date.now()) return toResponse<T>(entry);
+    await this.store.delete(key);
+  }
+
+  /**
+   * Memoizes the result of an execution.
+   * @returns an equivalent response, since reading the original response body consumes it.
+   */
+  async set<T>(key: string, response: HttpResponse<T>): Promise<HttpResponse<T>> {
+    const body = new Uint8Array(await Streamer.toBuffer(response.buffer));
+    const { status, headers, data } = response;
+    await this.store.set(key, { status, headers, data, body, expiresAt: Date.now() + this.ttl });
+    return { status, headers, data, buffer: Streamer.fromBuffer(body) };
+  }
+
+  /**
+   * Discards all the memoized results.
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  toJson(): MemoOptions {
+    return { ttl: this.ttl };
+  }
+}
+
+function toResponse<T>({ status, headers, data, body }: CacheEntry): HttpResponse<T> {
+  return { status, headers, data, buffer: Streamer.fromBuffer(body) };
+}
+
+/**
+ * Serializes a value as JSON with its object keys sorted, so that equivalent values
+ * (e.g., `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }`) get the same representation.
+ */
+function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]]),
+        )
+      : item,
+  );
+}
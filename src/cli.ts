@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+import { Client as SparkClient } from './client';
+import { SparkError } from './error';
+import { Streamer } from './streaming';
+import { checkTypes, generateTypes } from './codegen';
+import Utils, { loadModule } from './utils';
+
+const USAGE = `Usage: cspark-codegen <folder/service> [options]
+
+Generates the TypeScript types of a Spark service from its Swagger documentation.
+
+Options:
+  -o, --out <file>      where to write the generated types (defaults to stdout)
+  -n, --name <name>     the base name of the generated types (defaults to the service name)
+  -s, --swagger <file>  read the Swagger documentation from a file instead of the Spark platform
+  -p, --profile <name>  the profile to read client settings from (see ~/.cspark/config)
+  -c, --check           fail if the generated types (--out) no longer match the service
+  -h, --help            display this help
+
+The client settings (e.g., CSPARK_BASE_URL, CSPARK_API_KEY) are read from the environment.`;
+
+interface CliArgs {
+  uri?: string;
+  out?: string;
+  name?: string;
+  swagger?: string;
+  profile?: string;
+  check: boolean;
+  help: boolean;
+}
+
+/**
+ * Runs the code generator from the command line.
+ * @param {string[]} argv - the command line arguments (without the node executable and script)
+ * @param {SparkClient} spark - the client fetching the Swagger documentation (built from the arguments if none)
+ * @returns the exit code: 0 on success, 1 if the check fails, and 2 on errors.
+ */
+export async function main(argv: string[], spark?: SparkClient): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    if (args.help) {
+      print(USAGE);
+      return 0;
+    }
+    if (!args.uri && !args.swagger) throw SparkError.sdk('a service URI or a --swagger file is required');
+    if (args.check && !args.out) throw SparkError.sdk('--check requires the --out file to check');
+
+    const swagger = args.swagger
+      ? JSON.parse(Utils.readFile(args.swagger))
+      : await fetchSwagger(spark ?? new SparkClient({ profile: args.profile, logger: false }), args.uri!);
+
+    if (args.check) {
+      const { upToDate } = await checkTypes(swagger, Utils.readFile(args.out!));
+      print(upToDate ? `${args.out} is up to date` : `${args.out} no longer matches the service schema`, !upToDate);
+      return upToDate ? 0 : 1;
+    }
+
+    const code = await generateTypes(swagger, { uri: args.uri, name: args.name });
+    if (args.out) loadModule('fs').writeFileSync(args.out, code);
+    else print(code);
+    return 0;
+  } catch (error) {
+    print(`error: ${(error as Error).message}\n\n${USAGE}`, true);
+    return 2;
+  }
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { check: false, help: false };
+  const options: Record<string, 'out' | 'name' | 'swagger' | 'profile'> = {
+    '-o': 'out',
+    '--out': 'out',
+    '-n': 'name',
+    '--name': 'name',
+    '-s': 'swagger',
+    '--swagger': 'swagger',
+    '-p': 'profile',
+    '--profile': 'profile',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-c' || arg === '--check') args.check = true;
+    else if (arg === '-h' || arg === '--help') args.help = true;
+    else if (Utils.hasOwn(options, arg)) {
+      const value = argv[++i];
+      if (value === undefined || value.startsWith('-')) throw SparkError.sdk(`${arg} requires a value`);
+      args[options[arg]] = value;
+    } else if (arg.startsWith('-')) throw SparkError.sdk(`unknown option ${arg}`);
+    else if (!args.uri) args.uri = arg;
+    else throw SparkError.sdk(`unexpected argument ${arg}`);
+  }
+  return args;
+}
+
+async function fetchSwagger(spark: SparkClient, uri: string): Promise<Record<string, any>> {
+  const response = await spark.service.getSwagger(uri);
+  return response.data ?? JSON.parse((await Streamer.toBuffer(response.buffer)).toString());
+}
+
+function print(message: string, isError = false) {
+  (isError ? process.stderr : process.stdout).write(message.endsWith('\n') ? message : `${message}\n`);
+}
+
+if (typeof require !== 'undefined' && require.main === module) {
+  main(process.argv.slice(2)).then((code) => process.exit(code));
+}
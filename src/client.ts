@@ -1,7 +1,13 @@
 import { Maybe } from './utils';
-import { Config, type BaseUrl } from './config';
+import { Config, type BaseUrl, type HostOptions } from './config';
 import { LogLevel, LoggerOptions } from './logger';
+import { RetryOptions } from './retry';
+import { LimiterOptions, RateLimiter } from './limiter';
+import { CacheOptions, ExecutionMemo, MemoOptions, ResponseCache } from './cache';
+import { Transport } from './transport';
+import { NetworkOptions } from './network';
 import { Authorization, OAuthMethod } from './auth';
+import { Interceptor } from './http';
 import * as API from './resources';
 
 /**
@@ -18,6 +24,7 @@ import * as API from './resources';
  * - `CSPARK_BASE_URL` for `baseUrl`
  * - `CSPARK_API_KEY` for `apiKey`
  * - `CSPARK_BEARER_TOKEN` for `token`
+ * - `CSPARK_PROFILE` for `profile`
  *
  * Note that for user authentication you can use either an API key, a bearer token,
  * OAuth2 client credentials. If all of them are provided, the client will consider
@@ -31,6 +38,16 @@ export interface ClientOptions extends OAuthMethod {
    */
   baseUrl?: Maybe<string | BaseUrl>;
 
+  /**
+   * The name of the profile to read settings from (see `~/.cspark/config`).
+   * By default, it'll be read from `process.env['CSPARK_PROFILE']`; otherwise, the
+   * `default` profile is used if any.
+   *
+   * Settings are resolved in the following order of precedence:
+   * explicit option > environment variable > profile > default value.
+   */
+  profile?: Maybe<string>;
+
   /**
    * Overrides the inferred tenant name from `baseUrl`.
    */
@@ -44,6 +61,15 @@ export interface ClientOptions extends OAuthMethod {
    */
   env?: Maybe<string>;
 
+  /**
+   * The hosts to trust besides `*.coherent.global` (e.g., an on-premises deployment
+   * or a local mock gateway), and how to derive the hosts of other services (e.g.,
+   * keycloak) from the base URL.
+   *
+   * @see HostOptions for more details.
+   */
+  hosts?: HostOptions;
+
   /**
    * The maximum amount of time (in milliseconds) that the client should wait for
    * a response from the server before timing out a single request.
@@ -70,6 +96,89 @@ export interface ClientOptions extends OAuthMethod {
    */
   retryInterval?: number;
 
+  /**
+   * The retry policy for transient failures, such as 502, 503 or 504 responses
+   * and network errors.
+   *
+   * It determines which statuses and errors are retried, how the backoff grows and
+   * gets randomized, and the maximum amount of time spent on a request including its
+   * retries. By default, only idempotent requests (GET, PUT, DELETE) are retried;
+   * other requests (e.g., executing a service) are retried only when marked as such.
+   *
+   * @see RetryOptions for more details.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * The client-side rate limits: a token bucket capping how many requests get started
+   * per interval, and/or a maximum number of requests in flight.
+   *
+   * The limiter is shared by all the resources created from the same client. Provide
+   * a `RateLimiter` instance to share it among several clients. Queued requests can
+   * be cancelled using their cancellation token.
+   *
+   * @see LimiterOptions for more details.
+   */
+  limiter?: LimiterOptions | RateLimiter;
+
+  /**
+   * The response cache of the read-only endpoints: service metadata, schema, Swagger
+   * documentation and versions. Disabled by default.
+   *
+   * Set it to `true` to cache these responses in memory for 5 minutes, or tailor the
+   * durations per endpoint and plug in your own store. Service executions are never
+   * cached unless requested. Like the limiter, the cache is shared by all the resources
+   * created from the same client; provide a `ResponseCache` instance to share it among
+   * several clients.
+   *
+   * @see CacheOptions for more details.
+   */
+  cache?: boolean | CacheOptions | ResponseCache;
+
+  /**
+   * The memo of service execution results, for repeated executions of the same inputs
+   * against a pinned version (e.g., what-if analysis). Disabled by default.
+   *
+   * Results are keyed on the version ID, the inputs and the requested outputs. Only
+   * executions pinning a version (`versionId`) are memoized, so that results stay
+   * correct; others are sent as usual. Hits and misses are reported by the logger.
+   * Set `memoize: false` in the execution parameters to skip the memo for a call.
+   *
+   * @see MemoOptions for more details.
+   */
+  memoize?: boolean | MemoOptions | ExecutionMemo;
+
+  /**
+   * The HTTP transport used to send requests.
+   *
+   * By default, the native fetch API is used in browsers and Node 18+, and `node-fetch`
+   * otherwise. Provide your own implementation of `Transport` to use another HTTP
+   * client (e.g., undici, a proxy-aware client or an in-memory transport for tests).
+   */
+  transport?: Transport;
+
+  /**
+   * The network settings: proxy, extra certificate authorities, client certificate
+   * for mutual TLS, and keep-alive tuning (Node environments only).
+   *
+   * Proxies set via `process.env['HTTPS_PROXY']` and `process.env['NO_PROXY']` are
+   * honored by default. These settings are ignored when a custom `transport` is provided.
+   *
+   * @see NetworkOptions for more details.
+   */
+  network?: NetworkOptions;
+
+  /**
+   * Whether to validate the inputs of service executions against the service's input
+   * schema before sending them (defaults to `false`).
+   *
+   * The input schema is fetched once per service (from its Swagger documentation)
+   * and cached by the client. Invalid inputs are then reported as a `SparkSdkError`
+   * listing every violation, saving a billable round-trip. This can also be enabled
+   * per execution using `validateInputs` in the execution parameters.
+   */
+  validateInputs?: boolean;
+
   /**
    * By default, client-side use of this library is not recommended, as it risks exposing
    * your secret API credentials to attackers.
@@ -129,6 +238,28 @@ export class Client {
     return new API.Wasm(this.config);
   }
 
+  /**
+   * Registers an interceptor to hook into every request made by this client.
+   * @param {Interceptor} interceptor - the request, response and error hooks.
+   * @returns the registered interceptor, which can later be removed via `eject`.
+   *
+   * Interceptors are shared by all resources created from this client and are
+   * applied in their registration order.
+   */
+  use<T extends Interceptor>(interceptor: T): T {
+    this.config.interceptors.add(interceptor);
+    return interceptor;
+  }
+
+  /**
+   * Removes a previously registered interceptor.
+   * @param {Interceptor} interceptor - the interceptor to remove.
+   * @returns `true` if the interceptor was registered; otherwise, `false`.
+   */
+  eject(interceptor: Interceptor): boolean {
+    return this.config.interceptors.delete(interceptor);
+  }
+
   /**
    * Downloads a file from the given URL.
    * @param url - valid URL
@@ -137,10 +268,20 @@ export class Client {
   /**
    * Downloads a file from the given URL.
    * @param url - valid URL
-   * @param auth - optional authorization
+   * @param auth - optional authorization used as is
+   * @param transport - optional HTTP transport (e.g., to reuse the network settings of a client)
+   */
+  static download(url: string, auth?: Authorization, transport?: Transport): ReturnType<typeof API.download>;
+  /**
+   * Downloads a file from the given URL.
+   * @param url - valid URL
+   * @param config - the configuration of a client whose authorization (credential providers
+   * and OAuth2 included) and transport are used, unless another transport is given
+   * @param transport - optional HTTP transport
    */
-  static download(url: string, auth?: Authorization) {
-    return API.download(url, auth);
+  static download(url: string, config: Config, transport?: Transport): ReturnType<typeof API.download>;
+  static download(url: string, auth?: Authorization | Config, transport?: Transport) {
+    return API.download(url, auth, transport);
   }
 
   /**
@@ -0,0 +1,193 @@
+import { SparkError } from './error';
+import { calculateMd5Hash } from './http';
+import { SPARK_SDK } from './constants';
+import Utils, { StringUtils } from './utils';
+
+/**
+ * The subset of JSON schemas used by the Swagger documentation of a Spark service.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  format?: string;
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  additionalProperties?: boolean | JsonSchema;
+  [key: string]: unknown;
+}
+
+/**
+ * The input and output schemas of a Spark service.
+ */
+export interface ServiceSchemas {
+  /** The folder and service names (e.g., "my-folder/my-service"), if known. */
+  readonly uri?: string;
+  readonly inputs: JsonSchema;
+  readonly outputs: JsonSchema;
+}
+
+export interface CodegenOptions {
+  /**
+   * The service URI used by the generated wrapper (e.g., "my-folder/my-service").
+   * Defaults to the one documented in the Swagger documentation.
+   */
+  uri?: string;
+
+  /**
+   * The base name of the generated types (e.g., `MyService` for `MyServiceInputs`).
+   * Defaults to the service name in PascalCase.
+   */
+  name?: string;
+}
+
+/**
+ * The outcome of checking previously generated types against a service.
+ */
+export interface CodegenCheck {
+  /** Whether the generated types still match the service schemas. */
+  readonly upToDate: boolean;
+  /** The fingerprint of the current service schemas. */
+  readonly expected: string;
+  /** The fingerprint found in the generated types, if any. */
+  readonly actual?: string;
+}
+
+const SCHEMA_HASH_TAG = '@schema-hash';
+
+/**
+ * Extracts the input and output schemas from the Swagger documentation of a service
+ * (see `Service.getSwagger`).
+ * @param {object} swagger - the Swagger documentation (JSON)
+ * @throws {SparkSdkError} if the documentation does not describe an execute endpoint.
+ */
+export function extractSchemas(swagger: Record<string, any>): ServiceSchemas {
+  const [path, operation] =
+    Object.entries<any>(swagger?.paths ?? {}).find(([path, item]) => path.endsWith('/execute') && item?.post) ?? [];
+  const body = operation?.post?.parameters?.find((param: any) => param?.in === 'body');
+  const inputs = body?.schema?.properties?.request_data?.properties?.inputs;
+  const outputs = operation?.post?.responses?.['200']?.schema?.properties?.response_data?.properties?.outputs;
+  if (!path || !Utils.isObject(inputs) || !Utils.isObject(outputs)) {
+    throw SparkError.sdk({ message: 'swagger documentation has no input and output schemas', cause: swagger?.info });
+  }
+
+  const example = (name: string) => operation.post.parameters.find((param: any) => param?.name === name)?.['x-example'];
+  const [folder, service] = [example('product'), example('engine') ?? swagger.info?.title];
+  return { uri: folder && service ? `${folder}/${service}` : undefined, inputs, outputs };
+}
+
+/**
+ * Computes a fingerprint of the service schemas, embedded in the generated types
+ * so that they can be checked later on against the published service.
+ */
+export function hashSchemas({ inputs, outputs }: ServiceSchemas): Promise<string> {
+  return calculateMd5Hash(JSON.stringify({ inputs, outputs }));
+}
+
+/**
+ * Generates the TypeScript types of the inputs and outputs of a service, as well
+ * as a strongly-typed wrapper executing it.
+ * @param {object} swagger - the Swagger documentation (JSON) of the service
+ * @param {CodegenOptions} options - the code generation settings
+ * @returns the TypeScript source code
+ *
+ * All inputs are optional, since Spark falls back to the default values of the
+ * Excel model, whereas all outputs are expected in the response.
+ */
+export async function generateTypes(swagger: Record<string, any>, options: CodegenOptions = {}): Promise<string> {
+  const schemas = extractSchemas(swagger);
+  const uri = options.uri ?? schemas.uri;
+  if (!uri) throw SparkError.sdk('service URI is required to generate the execute wrapper');
+
+  const name = options.name ?? toPascalCase(uri.split('/').pop()!);
+  const hash = await hashSchemas(schemas);
+  return [
+    '/**',
+    ` * Generated by ${SPARK_SDK} from the Swagger documentation of ${uri}.`,
+    ' * Do not edit this file manually: regenerate it whenever the service changes.',
+    ` * ${SCHEMA_HASH_TAG} ${hash}`,
+    ' */',
+    "import { type SparkClient } from '@cspark/sdk';",
+    "import { type CallOptions } from '@cspark/sdk/http';",
+    '',
+    `export type ${name}Inputs = ${toTypeScript(schemas.inputs, { optional: true })};`,
+    '',
+    `export type ${name}Outputs = ${toTypeScript(schemas.outputs)};`,
+    '',
+    `export function execute${name}(spark: SparkClient, inputs: ${name}Inputs, options?: CallOptions) {`,
+    `  return spark.service.execute<${name}Inputs, ${name}Outputs>('${uri}', { inputs }, options);`,
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Checks whether previously generated types still match the Swagger documentation
+ * of a service.
+ * @param {object} swagger - the Swagger documentation (JSON) of the service
+ * @param {string} code - the previously generated TypeScript source code
+ */
+export async function checkTypes(swagger: Record<string, any>, code: string): Promise<CodegenCheck> {
+  const expected = await hashSchemas(extractSchemas(swagger));
+  const actual = code.match(new RegExp(`${SCHEMA_HASH_TAG} ([0-9a-f]+)`))?.[1];
+  return { upToDate: expected === actual, expected, actual };
+}
+
+function toTypeScript(schema: JsonSchema, { optional = false, depth = 0 } = {}): string {
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ') || 'never';
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const items = schema.items ? toTypeScript(schema.items, { optional, depth }) : 'unknown';
+      return /^[\w.]+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+    }
+    case 'object':
+    case undefined: {
+      if (!schema.properties) return schema.type ? 'Record<string, unknown>' : 'unknown';
+
+      const indent = '  '.repeat(depth + 1);
+      const members = Object.entries(schema.properties).map(([key, value]) => {
+        const isOptional = optional && !schema.required?.includes(key);
+        const doc = StringUtils.isNotEmpty(value.description) ? `${indent}/** ${value.description} */\n` : '';
+        const type = toTypeScript(value, { optional, depth: depth + 1 });
+        return `${doc}${indent}${toPropertyName(key)}${isOptional ? '?' : ''}: ${type};`;
+      });
+      return members.length ? `{\n${members.join('\n')}\n${'  '.repeat(depth)}}` : '{}';
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+function toPropertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function toPascalCase(text: string): string {
+  const name = text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : `Service${name}`;
+}
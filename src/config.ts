@@ -1,11 +1,18 @@
 import Utils from './utils';
-import Validators from './validators';
+import Validators, { type HostPattern } from './validators';
 import { SparkError } from './error';
-import { Authorization } from './auth';
+import { Authorization, OAuth } from './auth';
 import { Interceptor } from './http';
+import { type JsonSchema } from './codegen';
 import { ClientOptions } from './client';
 import { Logger, LoggerOptions } from './logger';
-import { DEFAULT_TIMEOUT_IN_MS, ENV_VARS } from './constants';
+import { RetryPolicy } from './retry';
+import { RateLimiter } from './limiter';
+import { ExecutionMemo, ResponseCache } from './cache';
+import { Profile } from './profile';
+import { readEnvOptions } from './env';
+import { Transport, getDefaultTransport } from './transport';
+import { DEFAULT_TIMEOUT_IN_MS } from './constants';
 import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_INTERVAL } from './constants';
 
 export class Config {
@@ -14,37 +21,65 @@ export class Config {
   readonly baseUrl!: BaseUrl;
   readonly auth!: Authorization;
   readonly environment?: string | undefined;
+  readonly profile?: string | undefined;
   readonly maxRetries!: number;
   readonly retryInterval!: number;
+  readonly retry!: RetryPolicy;
+  readonly limiter?: RateLimiter;
+  readonly cache?: ResponseCache;
+  readonly memo?: ExecutionMemo;
   readonly timeout!: number;
+  readonly transport!: Transport;
   readonly allowBrowser!: boolean;
   readonly logger!: LoggerOptions;
+  readonly validateInputs!: boolean;
   readonly extraHeaders: Record<string, string> = {};
   readonly interceptors: Set<Interceptor> = new Set<Interceptor>();
+  readonly schemas: Map<string, JsonSchema> = new Map<string, JsonSchema>();
 
-  constructor({
-    baseUrl: url = Utils.readEnv(ENV_VARS.BASE_URL),
-    apiKey = Utils.readEnv(ENV_VARS.API_KEY),
-    token = Utils.readEnv(ENV_VARS.BEARER_TOKEN),
-    timeout = DEFAULT_TIMEOUT_IN_MS,
-    maxRetries = DEFAULT_MAX_RETRIES,
-    retryInterval = DEFAULT_RETRY_INTERVAL,
-    tenant,
-    env,
-    ...options
-  }: ClientOptions = {}) {
+  /**
+   * Builds the client configuration.
+   *
+   * Each setting is resolved in the following order of precedence:
+   * explicit option > environment variable > profile > default value.
+   */
+  constructor(options: ClientOptions = {}) {
+    const profile = Profile.load(options.profile);
+    const settings = profile?.settings ?? {};
+    const envs = readEnvOptions();
     const numberValidator = Validators.positiveInteger.getInstance();
 
-    this.baseUrl = url instanceof BaseUrl ? url : BaseUrl.from({ url, tenant, env });
-    this.auth = Authorization.from({ apiKey, token, oauth: options?.oauth });
+    const url = options.baseUrl ?? envs.baseUrl ?? settings.baseUrl;
+    const tenant = options.tenant ?? envs.tenant ?? settings.tenant;
+    const env = options.env ?? envs.env ?? settings.env;
+    const hosts = options.hosts ?? settings.hosts;
+    const apiKey = options.apiKey ?? envs.apiKey ?? settings.apiKey;
+    const token = options.token ?? envs.token ?? settings.token;
+    const oauth = options.oauth ?? OAuth.readEnv() ?? settings.oauth;
+    const timeout = options.timeout ?? envs.timeout ?? settings.timeout ?? DEFAULT_TIMEOUT_IN_MS;
+    const maxRetries = options.maxRetries ?? envs.maxRetries ?? settings.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const retryInterval =
+      options.retryInterval ?? envs.retryInterval ?? settings.retryInterval ?? DEFAULT_RETRY_INTERVAL;
+
+    this.profile = profile?.name;
+    this.baseUrl = url instanceof BaseUrl ? url : BaseUrl.from({ url, tenant, env, hosts });
+    this.auth = Authorization.from({ apiKey, token, oauth, tokenStore: options.tokenStore });
     this.timeout = numberValidator.isValid(timeout) ? timeout! : DEFAULT_TIMEOUT_IN_MS;
-    this.maxRetries = numberValidator.isValid(maxRetries) ? maxRetries! : DEFAULT_MAX_RETRIES;
+    this.maxRetries = maxRetries === 0 || numberValidator.isValid(maxRetries) ? maxRetries! : DEFAULT_MAX_RETRIES;
     this.retryInterval = numberValidator.isValid(retryInterval) ? retryInterval! : DEFAULT_RETRY_INTERVAL;
-    this.allowBrowser = this.auth.isOpen || !!options.allowBrowser;
-    this.logger = Logger.for(options.logger);
+    this.retry = new RetryPolicy(this.maxRetries, this.retryInterval, options.retry ?? settings.retry);
+    const limiter = options.limiter ?? settings.limiter;
+    this.limiter = limiter ? RateLimiter.from(limiter) : undefined;
+    this.cache = options.cache ? ResponseCache.from(options.cache) : undefined;
+    this.memo = options.memoize ? ExecutionMemo.from(options.memoize) : undefined;
+    this.transport = options.transport ?? getDefaultTransport(options.network);
+    this.allowBrowser = this.auth.isOpen || !!(options.allowBrowser ?? envs.allowBrowser ?? settings.allowBrowser);
+    this.logger = Logger.for(options.logger ?? envs.logger ?? settings.logger);
+    this.validateInputs = !!options.validateInputs;
     this.environment = env;
 
     this.#options = JSON.stringify({
+      profile: this.profile,
       baseUrl: this.baseUrl.toString(),
       apiKey: this.auth.apiKey,
       token: this.auth.token,
@@ -52,7 +87,12 @@ export class Config {
       timeout: this.timeout,
       maxRetries: this.maxRetries,
       retryInterval: this.retryInterval,
+      retry: this.retry.toJson(),
+      limiter: this.limiter?.toJson(),
+      cache: this.cache?.toJson(),
+      memoize: this.memo?.toJson(),
       allowBrowser: this.allowBrowser,
+      validateInputs: this.validateInputs,
     });
 
     if (!this.allowBrowser && Utils.isBrowser()) {
@@ -75,18 +115,37 @@ export class Config {
     return !Utils.isEmptyObject(this.extraHeaders);
   }
 
+  /**
+   * Creates a copy of this configuration with the given options.
+   *
+   * When a `profile` is specified, the copy is built from that profile instead
+   * (along with the given options), i.e., current settings are not carried over
+   * except for the transport (unless new network settings are given) and token store.
+   */
   copyWith(options: ClientOptions = {}): Config {
+    if (options.profile) {
+      const transport = options.network ? undefined : this.transport;
+      return new Config({ transport, tokenStore: this.auth.oauth?.tokenStore, ...options });
+    }
+
     const { baseUrl: url = this.baseUrl.value, tenant = this.baseUrl.tenant, env = this.environment } = options;
+    const hosts = options.hosts ?? this.baseUrl.hosts;
     return new Config({
-      baseUrl: url instanceof BaseUrl ? url : BaseUrl.from({ url, tenant, env }),
-      apiKey: options.apiKey ?? this.auth.apiKey,
-      token: options.token ?? this.auth.token,
-      oauth: options.oauth ?? this.auth.oauth,
+      baseUrl: url instanceof BaseUrl ? url : BaseUrl.from({ url, tenant, env, hosts }),
+      ...this.auth.copyWith(options),
       timeout: options.timeout ?? this.timeout,
       maxRetries: options.maxRetries ?? this.maxRetries,
       retryInterval: options.retryInterval ?? this.retryInterval,
+      retry: options.retry ?? this.retry,
+      limiter: options.limiter ?? this.limiter,
+      cache: options.cache ?? this.cache,
+      memoize: options.memoize ?? this.memo,
+      transport: options.transport ?? (options.network ? undefined : this.transport),
+      network: options.network,
       allowBrowser: options.allowBrowser ?? this.allowBrowser,
       logger: options.logger ?? this.logger,
+      validateInputs: options.validateInputs ?? this.validateInputs,
+      profile: this.profile,
     });
   }
 
@@ -95,12 +154,49 @@ export class Config {
   }
 }
 
+/**
+ * The Spark services reachable from a base URL.
+ */
+export type SparkService = 'excel' | 'keycloak' | 'utility' | 'entitystore';
+
+/**
+ * Derives the origin (e.g., "https://keycloak.us.coherent.global") of a service
+ * from the origin of the Spark base URL (e.g., "https://excel.us.coherent.global").
+ */
+export type HostMapper = (service: SparkService, origin: string) => string;
+
+/**
+ * Options for using Spark hosts other than the `*.coherent.global` ones
+ * (e.g., on-premises deployments or local mock gateways).
+ */
+export interface HostOptions {
+  /**
+   * Hosts to trust in addition to `*.coherent.global`: hostnames (e.g., `localhost`),
+   * wildcard patterns (e.g., `*.spark.my-company.com`) or regular expressions.
+   */
+  trusted?: HostPattern[];
+
+  /**
+   * Whether to reject base URLs whose hosts are neither Spark's nor trusted (default: `true`).
+   */
+  strict?: boolean;
+
+  /**
+   * Derives the host of the other services (keycloak, utility, entitystore) from
+   * the base URL. Defaults to replacing `excel` with the service name.
+   */
+  mapper?: HostMapper;
+}
+
+const defaultHostMapper: HostMapper = (service, origin) => origin.replace(/excel/, service);
+
 export class BaseUrl {
   readonly url!: URL;
 
   protected constructor(
     baseUrl: string,
     readonly tenant: string,
+    readonly hosts: Readonly<HostOptions> = {},
   ) {
     this.url = new URL(baseUrl + '/' + tenant);
   }
@@ -111,24 +207,26 @@ export class BaseUrl {
    * @param {string} options.url - the base URL to use.
    * @param {string} options.tenant - the tenant name.
    * @param {string} options.env - the environment name to use.
+   * @param {HostOptions} options.hosts - the trusted hosts and host mapping to use.
    * @returns a BaseUrl
    * @throws {SparkError} if a base URL cannot be built from the given parameters.
    */
-  static from(options: { url?: string; tenant?: string; env?: string } = {}): BaseUrl {
+  static from(options: { url?: string; tenant?: string; env?: string; hosts?: HostOptions } = {}): BaseUrl {
+    const hosts = options?.hosts ?? {};
     const stringValidator = Validators.emptyString.getInstance();
-    const urlValidator = Validators.baseUrl.getInstance();
+    const urlValidator = Validators.baseUrl.getInstance(hosts.trusted, hosts.strict);
 
     if (urlValidator.isValid(options?.url)) {
       const url = new URL(options.url!);
       const tenant = url.pathname.split('/')[1] || options?.tenant;
 
       if (stringValidator.isValid(tenant, 'tenant name is required')) {
-        return new this(url.origin, tenant!);
+        return new this(url.origin, tenant!, hosts);
       }
     } else if (options?.env && options?.tenant) {
       const env = options.env.trim().toLowerCase();
       const tenant = options.tenant.trim().toLowerCase();
-      return new this(`https://excel.${env}.coherent.global`, tenant);
+      return new this(`https://excel.${env}.coherent.global`, tenant, hosts);
     } else {
       // capture errors for missing parameters
       stringValidator.isValid(options?.env, 'environment name is missing') &&
@@ -138,7 +236,7 @@ export class BaseUrl {
     const errors = urlValidator.errors.concat(stringValidator.errors);
     throw SparkError.sdk({
       message: errors.map((e) => e.message).join('; ') || 'cannot build base URL from invalid parameters',
-      cause: JSON.stringify(options),
+      cause: JSON.stringify({ ...options, hosts: undefined }),
     });
   }
 
@@ -159,11 +257,12 @@ export class BaseUrl {
 
   /**
    * Gets the equivalent URL for the given service.
-   * @param service name to replace the engine
+   * @param service name of the service to map the base URL to
    * @returns the base URL for the given service (e.g., "https://entitystore.us.coherent.global")
    */
-  to(service: 'excel' | 'keycloak' | 'utility' | 'entitystore', withTenant = false): string {
-    return (withTenant ? this.full : this.value).replace(/excel/, service);
+  to(service: SparkService, withTenant = false): string {
+    const origin = service === 'excel' ? this.value : (this.hosts.mapper ?? defaultHostMapper)(service, this.value);
+    return withTenant ? `${origin}/${this.tenant}` : origin;
   }
 
   toString(): string {
@@ -2,13 +2,28 @@ export const DEFAULT_MAX_RETRIES = 2;
 export const DEFAULT_RETRY_INTERVAL = 1; // 1 second
 export const DEFAULT_TIMEOUT_IN_MS = 60000; // 60 seconds
 export const RETRY_RANDOMIZATION_FACTOR = 1.5;
+export const DEFAULT_RETRY_MAX_DELAY_IN_MS = 30000; // 30 seconds
+export const DEFAULT_RETRY_MAX_ELAPSED_TIME_IN_MS = 120000; // 2 minutes
+export const DEFAULT_OAUTH_REFRESH_SKEW = 60; // 60 seconds
+export const DEFAULT_CACHE_TTL_IN_MS = 300000; // 5 minutes
+export const DEFAULT_CACHE_MAX_ENTRIES = 100;
+export const DEFAULT_MEMO_TTL_IN_MS = 3600000; // 1 hour
 export const SPARK_SDK = 'Spark JS SDK';
 
 export const ENV_VARS = {
   BASE_URL: 'CSPARK_BASE_URL',
+  TENANT: 'CSPARK_TENANT',
+  ENV: 'CSPARK_ENV',
   API_KEY: 'CSPARK_API_KEY',
   BEARER_TOKEN: 'CSPARK_BEARER_TOKEN',
   CLIENT_ID: 'CSPARK_CLIENT_ID',
   CLIENT_SECRET: 'CSPARK_CLIENT_SECRET',
   OAUTH_PATH: 'CSPARK_OAUTH_PATH',
+  TIMEOUT: 'CSPARK_TIMEOUT',
+  MAX_RETRIES: 'CSPARK_MAX_RETRIES',
+  RETRY_INTERVAL: 'CSPARK_RETRY_INTERVAL',
+  LOG_LEVEL: 'CSPARK_LOG_LEVEL',
+  ALLOW_BROWSER: 'CSPARK_ALLOW_BROWSER',
+  PROFILE: 'CSPARK_PROFILE',
+  CONFIG_FILE: 'CSPARK_CONFIG_FILE',
 } as const;
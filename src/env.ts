@@ -0,0 +1,103 @@
+import Utils from './utils';
+import { SparkError } from './error';
+import { ENV_VARS } from './constants';
+import { Log, type LogLevel } from './logger';
+
+/**
+ * The client options that can be set using environment variables.
+ *
+ * OAuth credentials are read separately (see `OAuth.readEnv`), and so is the
+ * profile name (see `Profile.load`).
+ */
+export interface EnvOptions {
+  readonly baseUrl?: string;
+  readonly tenant?: string;
+  readonly env?: string;
+  readonly apiKey?: string;
+  readonly token?: string;
+  readonly timeout?: number;
+  readonly maxRetries?: number;
+  readonly retryInterval?: number;
+  readonly logger?: boolean | LogLevel[];
+  readonly allowBrowser?: boolean;
+}
+
+type EnvParser<T> = (value: string, name: string) => T;
+
+const asString: EnvParser<string> = (value) => value;
+
+const asPositiveNumber: EnvParser<number> = (value, name) => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw SparkError.sdk({ message: `${name} must be a positive number`, cause: value });
+  }
+  return number;
+};
+
+const asPositiveInteger: EnvParser<number> = (value, name) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw SparkError.sdk({ message: `${name} must be a positive integer`, cause: value });
+  }
+  return number;
+};
+
+const asNonNegativeInteger: EnvParser<number> = (value, name) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw SparkError.sdk({ message: `${name} must be a non-negative integer`, cause: value });
+  }
+  return number;
+};
+
+const asBoolean: EnvParser<boolean> = (value, name) => {
+  const normalized = value.toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+  throw SparkError.sdk({ message: `${name} must be a boolean (true or false)`, cause: value });
+};
+
+const asLogLevels: EnvParser<boolean | LogLevel[]> = (value, name) => {
+  const normalized = value.toLowerCase();
+  if (['true', 'false'].includes(normalized)) return normalized === 'true';
+
+  const levels = normalized.split(',').map((level) => level.trim()) as LogLevel[];
+  const invalid = levels.filter((level) => !(level in Log.weights));
+  if (invalid.length > 0) {
+    throw SparkError.sdk({
+      message: `${name} must be a boolean or comma-separated log levels (${Object.keys(Log.weights).join(', ')})`,
+      cause: value,
+    });
+  }
+  return levels;
+};
+
+/**
+ * Maps each option to its environment variable and parser.
+ */
+export const ENV_OPTIONS: { readonly [K in keyof EnvOptions]-?: [string, EnvParser<NonNullable<EnvOptions[K]>>] } = {
+  baseUrl: [ENV_VARS.BASE_URL, asString],
+  tenant: [ENV_VARS.TENANT, asString],
+  env: [ENV_VARS.ENV, asString],
+  apiKey: [ENV_VARS.API_KEY, asString],
+  token: [ENV_VARS.BEARER_TOKEN, asString],
+  timeout: [ENV_VARS.TIMEOUT, asPositiveInteger],
+  maxRetries: [ENV_VARS.MAX_RETRIES, asNonNegativeInteger], // 0 disables retries
+  retryInterval: [ENV_VARS.RETRY_INTERVAL, asPositiveNumber],
+  logger: [ENV_VARS.LOG_LEVEL, asLogLevels],
+  allowBrowser: [ENV_VARS.ALLOW_BROWSER, asBoolean],
+};
+
+/**
+ * Reads the client options from the environment variables.
+ * @returns the options whose environment variables are set (and not blank).
+ * @throws {SparkSdkError} if any of the environment variables has a malformed value.
+ */
+export function readEnvOptions(): EnvOptions {
+  const options: Record<string, unknown> = {};
+  for (const [key, [name, parse]] of Object.entries(ENV_OPTIONS)) {
+    const value = Utils.readEnv(name);
+    if (value) options[key] = (parse as EnvParser<unknown>)(value, name);
+  }
+  return options as EnvOptions;
+}
@@ -1,19 +1,44 @@
 import { type Readable as ByteStream } from 'stream';
-import nodeFetch, { RequestInit, AbortError } from 'node-fetch';
+import { type RequestInit } from 'node-fetch';
 
 import { Config } from './config';
+import { RetryPolicy, type RetryOptions } from './retry';
+import { Logger } from './logger';
 import { Streamer } from './streaming';
+import { Transport, TransportResponse, getDefaultTransport } from './transport';
 import { JsonData, Serializable } from './data';
 import { SparkError, SparkApiError, SparkSdkError } from './error';
 import { RETRY_RANDOMIZATION_FACTOR } from './constants';
 import Utils, { loadModule } from './utils';
 
+/**
+ * A file to upload: a byte stream in Node environments, or a Blob (e.g., a File
+ * picked by the user) in browser-like environments.
+ */
+export type FileInput = ByteStream | Blob;
+
 export interface Multipart {
   readonly name: string;
   readonly data?: JsonData | Serializable;
-  readonly fileStream?: ByteStream;
+  readonly fileStream?: FileInput;
   readonly fileName?: string;
   readonly contentType?: string;
+  /**
+   * The size (in bytes) of the file stream, if known, so that the request announces
+   * its `Content-Length` rather than being sent in chunks. It is computed for files
+   * read from disk (`fs.createReadStream`).
+   */
+  readonly knownLength?: number;
+}
+
+/**
+ * The progress of a request body being uploaded.
+ */
+export interface UploadProgress {
+  /** The number of bytes sent so far. */
+  readonly loaded: number;
+  /** The total number of bytes to send, if known. */
+  readonly total?: number;
 }
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
@@ -58,8 +83,81 @@ export interface RequestOptions<T = JsonData> {
    * Number of retries to attempt
    */
   readonly retries?: number;
+
+  /**
+   * Per-request context made available to every interceptor hook.
+   */
+  readonly context?: RequestContext;
+
+  /**
+   * Whether the request is safe to send more than once.
+   *
+   * When omitted, the retry policy infers it from the HTTP method (e.g., GET is
+   * idempotent whereas POST is not). Set it to `true` to let a POST request (e.g.,
+   * a service execution) be retried upon transient failures.
+   */
+  readonly idempotent?: boolean;
+
+  /**
+   * The maximum amount of time (in milliseconds) to wait for a response, overriding
+   * `Config.timeout` for this request.
+   */
+  readonly timeout?: number;
+
+  /**
+   * The maximum number of retries, overriding `Config.maxRetries` for this request.
+   */
+  readonly maxRetries?: number;
+
+  /**
+   * The retry settings overriding (and merged with) `Config.retry` for this request.
+   */
+  readonly retry?: RetryOptions;
+
+  /**
+   * Whether to expose the successful response body as a live stream (`HttpResponse.buffer`)
+   * instead of buffering it in memory, in which case `HttpResponse.data` is not parsed.
+   *
+   * Defaults to buffering the response body; only honored when the transport supports streaming.
+   */
+  readonly stream?: boolean;
+
+  /**
+   * Called as the request body (e.g., a multipart upload) is being sent.
+   * Not supported in browser-like environments.
+   */
+  readonly onUploadProgress?: (progress: UploadProgress) => void;
+
+  /**
+   * Whether to use the response cache (see `Config.cache`) for this request: `false`
+   * bypasses it, whereas `true` also caches endpoints that aren't cached by default
+   * (e.g., `Service.execute`). Only applies to the endpoints supporting it.
+   */
+  readonly cache?: boolean;
 }
 
+/**
+ * Options to tailor a single call of a resource method (e.g., `Service.execute`).
+ *
+ * They're merged with the client configuration: headers and query params are added
+ * to the ones built by the method, whereas the other settings override the client's
+ * for this call only.
+ */
+export type CallOptions = Pick<
+  RequestOptions,
+  | 'headers'
+  | 'params'
+  | 'cancellationToken'
+  | 'context'
+  | 'idempotent'
+  | 'timeout'
+  | 'maxRetries'
+  | 'retry'
+  | 'stream'
+  | 'onUploadProgress'
+  | 'cache'
+>;
+
 export interface HttpOptions<T> extends RequestOptions<T> {
   /**
    * Client configuration.
@@ -75,6 +173,12 @@ export interface HttpOptions<T> extends RequestOptions<T> {
    * Request body content type
    */
   readonly contentType?: string;
+
+  /**
+   * Whether to send the request without credentials (e.g., when requesting an
+   * OAuth2 access token). Defaults to false.
+   */
+  readonly anonymous?: boolean;
 }
 
 export interface HttpResponse<T = JsonData> {
@@ -89,7 +193,8 @@ export interface HttpResponse<T = JsonData> {
   readonly data: T;
 
   /**
-   * Binary array buffer of response body
+   * Response body as a byte stream: either a copy of the buffered body or, when
+   * streaming, the live response body, which can only be consumed once.
    */
   readonly buffer: ByteStream;
 
@@ -99,9 +204,47 @@ export interface HttpResponse<T = JsonData> {
   readonly headers: Record<string, string>;
 }
 
+/**
+ * Key-value pairs shared by all the hooks of a single request.
+ *
+ * It can be used to pass data from `ApiResource.request` to interceptors, or from
+ * one hook to another (e.g., a start time recorded in `beforeRequest` and read in
+ * `afterRequest`). The same object is kept across retries of the same request.
+ */
+export type RequestContext = Record<string, any>;
+
+/**
+ * Instructs the HTTP layer to send the failed request again.
+ */
+export interface RetryRequest {
+  readonly retry: true;
+
+  /** Delay (in milliseconds) before the next attempt (defaults to the retry policy's). */
+  readonly delay?: number;
+}
+
+/**
+ * What an interceptor may decide after a failed request:
+ * - an `HttpResponse` to recover from the failure;
+ * - a `RetryRequest` to send the request again (within `Config.maxRetries`);
+ * - nothing (`undefined`) to let the next interceptor handle it or the error propagate.
+ *
+ * Throwing from `onError` replaces the original error.
+ */
+export type ErrorRecovery<T = JsonData> = HttpResponse<T> | RetryRequest | void;
+
+type Awaitable<T> = T | Promise<T>;
+
+/**
+ * Hooks into the request lifecycle.
+ *
+ * Interceptors are applied in their insertion order, and each hook may return
+ * a value or a promise (e.g., to await a secrets lookup or sign a request).
+ */
 export interface Interceptor {
-  beforeRequest?<T>(options: HttpOptions<T>): HttpOptions<T>;
-  afterRequest?<T>(response: HttpResponse<T>): HttpResponse<T>;
+  beforeRequest?<T>(options: HttpOptions<T>): Awaitable<HttpOptions<T>>;
+  afterRequest?<T>(response: HttpResponse<T>, options: HttpOptions<any>): Awaitable<HttpResponse<T>>;
+  onError?<T>(error: SparkError, options: HttpOptions<any>): Awaitable<ErrorRecovery<T>>;
 }
 
 /**
@@ -135,12 +278,15 @@ async function createRequestInit<T>(options: HttpOptions<T>): Promise<RequestIni
       for (const item of options.multiparts) {
         if (item.fileStream) {
           if (Utils.isBrowser()) {
-            formData.append(item.name, item.fileStream, { filename: item.fileName ?? 'file' });
+            formData.append(item.name, item.fileStream, item.fileName ?? 'file');
           } else {
-            const buffer = await readStream(item.fileStream);
-            formData.append(item.name, buffer, {
+            // Blobs are not supported by form-data, unlike byte streams, which are piped as-is.
+            const isBlob = typeof Blob !== 'undefined' && item.fileStream instanceof Blob;
+            const file = isBlob ? Buffer.from(await (item.fileStream as Blob).arrayBuffer()) : item.fileStream;
+            formData.append(item.name, file, {
               filename: item.fileName ?? 'file',
               contentType: item.contentType ?? 'application/octet-stream',
+              knownLength: item.knownLength,
             });
           }
         } else if (item.data) {
@@ -156,9 +302,13 @@ async function createRequestInit<T>(options: HttpOptions<T>): Promise<RequestIni
         }
       }
 
+      if (Utils.isBrowser()) return { contentType: undefined, body: formData };
+
+      const length = await getFormLength(formData);
+      if (length !== undefined) headers['Content-Length'] = String(length);
       return {
-        contentType: Utils.isBrowser() ? undefined : `multipart/form-data; boundary=${formData.getBoundary()}`,
-        body: formData,
+        contentType: `multipart/form-data; boundary=${formData.getBoundary()}`,
+        body: trackUpload(formData, length, options.onUploadProgress),
       };
     }
 
@@ -181,7 +331,10 @@ async function createRequestInit<T>(options: HttpOptions<T>): Promise<RequestIni
         if (!fileStream) {
           throw SparkError.sdk('fileStream required for application/octet-stream content type');
         }
-        return { contentType, body: fileStream };
+        return {
+          contentType,
+          body: options.onUploadProgress ? trackUpload(fileStream, undefined, options.onUploadProgress) : fileStream,
+        };
 
       default:
         throw SparkError.sdk(`Unsupported content type: ${contentType}`);
@@ -193,7 +346,7 @@ async function createRequestInit<T>(options: HttpOptions<T>): Promise<RequestIni
   return {
     method,
     body: method === 'GET' ? undefined : body,
-    headers: { ...headers, ...options.config.auth?.asHeader },
+    headers: { ...headers, ...(options.anonymous ? {} : await options.config.auth?.authorize(options.config)) },
     signal: options.cancellationToken,
   };
 }
@@ -215,46 +368,148 @@ export async function calculateMd5Hash(data: string | Buffer): Promise<string> {
   return createHash('sha1').update(data).digest('hex');
 }
 
-async function readStream(stream: ByteStream): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const chunks: any[] = [];
-    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
-    stream.on('end', () => resolve(Buffer.concat(chunks)));
-    stream.on('error', (err: Error) => reject(err));
+/**
+ * Computes the length of a multipart form (form-data), if possible without reading
+ * its file streams.
+ */
+function getFormLength(form: any): Promise<number | undefined> {
+  if (form.hasKnownLength()) return Promise.resolve(form.getLengthSync());
+  return new Promise((resolve) =>
+    form.getLength((error: unknown, length: number) => resolve(error ? undefined : length)),
+  );
+}
+
+/**
+ * Pipes a request body through a byte counter reporting the upload progress.
+ *
+ * This also turns a multipart form (form-data) into a readable stream that both
+ * `node-fetch` and the native fetch API can send without buffering it.
+ */
+function trackUpload(
+  source: NodeJS.ReadableStream,
+  total?: number,
+  onProgress?: (progress: UploadProgress) => void,
+): ByteStream {
+  const { Transform } = loadModule('stream');
+  let loaded = 0;
+  const tracker = new Transform({
+    transform(chunk: Buffer, _: string, callback: (error: null, chunk: Buffer) => void) {
+      loaded += chunk.length;
+      onProgress?.({ loaded, total });
+      callback(null, chunk);
+    },
   });
+
+  source.on('error', (error: Error) => tracker.destroy(error));
+  return source.pipe(tracker);
 }
 
 export async function _fetch<Req = JsonData, Resp = JsonData>(
   resource: string,
   options: HttpOptions<Req>,
+): Promise<HttpResponse<Resp>> {
+  return fetchWithRetry<Req, Resp>(resource, options, Date.now());
+}
+
+async function fetchWithRetry<Req, Resp>(
+  resource: string,
+  options: HttpOptions<Req>,
+  startedAt: number,
 ): Promise<HttpResponse<Resp>> {
   // Apply beforeRequest interceptors if any.
-  const fetchOptions: typeof options = options.config.hasInterceptors
-    ? Array.from(options.config.interceptors).reduce(
-        (o: HttpOptions<Req>, i: Interceptor) => i.beforeRequest?.(o) ?? o,
-        options,
-      )
-    : options;
-  const { config } = fetchOptions;
+  let fetchOptions: typeof options = options;
+  for (const interceptor of options.config.interceptors) {
+    fetchOptions = (await interceptor.beforeRequest?.(fetchOptions)) ?? fetchOptions;
+  }
+  const { config, retries = 0, method = 'GET' } = fetchOptions;
+  const { maxRetries = config.maxRetries, timeout = config.timeout } = fetchOptions;
+  const retryPolicy =
+    fetchOptions.maxRetries === undefined && !fetchOptions.retry
+      ? config.retry
+      : new RetryPolicy(maxRetries, config.retryInterval, { ...config.retry, ...fetchOptions.retry });
+
+  // Decides whether a transient failure should be retried according to the retry policy.
+  // Streamed bodies cannot be replayed, hence those requests are never retried.
+  const retryAfter = (failure: { status?: number; error: unknown }): number | undefined => {
+    const isReplayable = !fetchOptions.file && !fetchOptions.multiparts?.some((part) => !!part.fileStream);
+    return retryPolicy.next({
+      ...failure,
+      retries,
+      method,
+      idempotent: isReplayable ? fetchOptions.idempotent : false,
+      elapsed: Date.now() - startedAt,
+    });
+  };
+  const retry = async (delay: number, reason: string): Promise<HttpResponse<Resp>> => {
+    Logger.of(config.logger).debug(`retrying <${resource}> in ${delay}ms (${reason})`);
+    await Utils.sleep(delay, fetchOptions.cancellationToken);
+    return fetchWithRetry(resource, { ...fetchOptions, retries: retries + 1 }, startedAt);
+  };
+
+  // Lets onError interceptors recover from the failure, request a retry or rethrow.
+  const recover = async (error: SparkError): Promise<HttpResponse<Resp>> => {
+    for (const interceptor of config.interceptors) {
+      const recovery = await interceptor.onError?.<Resp>(error, fetchOptions);
+      if (!recovery) continue;
+      if ('retry' in recovery) {
+        if (retries >= maxRetries) break;
+        return retry(recovery.delay ?? retryPolicy.getDelay(retries), 'requested by interceptor');
+      }
+      return recovery;
+    }
+    throw error;
+  };
 
   // Prepare and make request using fetch API
   const requestInit = await createRequestInit(fetchOptions);
   const url = Utils.formatUrl(resource, fetchOptions.params);
-  const response = await (async () => {
-    try {
-      return await nodeFetch(url, { ...requestInit, redirect: 'manual', timeout: config.timeout });
-    } catch (cause) {
-      if (cause instanceof AbortError) throw cause;
-      throw new SparkSdkError({ message: `failed to fetch <${resource}>`, cause });
-    }
-  })();
+
+  // Wait for our turn when the client is rate-limited (the slot is freed once the body is read).
+  const release = await config.limiter?.acquire(fetchOptions.cancellationToken);
+  let response: TransportResponse;
+  try {
+    response = await config.transport.send({
+      url,
+      method,
+      headers: requestInit.headers as Record<string, string>,
+      body: requestInit.body,
+      signal: requestInit.signal as AbortSignal | undefined,
+      timeout,
+    });
+  } catch (cause) {
+    release?.();
+    if (isAbortError(cause)) throw cause;
+
+    const error = new SparkSdkError({ message: `failed to fetch <${resource}>`, cause });
+    const delay = retryAfter({ error });
+    if (delay === undefined) return recover(error);
+    return retry(delay, (cause as Error)?.message ?? 'network error');
+  }
 
   // Extract response data and headers
-  const contentType = response.headers.get('content-type') ?? '';
-  const responseBytesBuffer = await response.arrayBuffer();
+  const contentType = response.headers['content-type'] ?? '';
+  const isJson = contentType.includes('application/json');
+  if (fetchOptions.stream && response.status >= 200 && response.status < 300 && response.body) {
+    // Streamed bodies free their rate-limiter slot right away so that unread streams
+    // (e.g., several exported files) cannot starve the following requests.
+    release?.();
+    let httpResponse: HttpResponse<Resp> = {
+      status: response.status,
+      data: null as Resp,
+      buffer: response.body(),
+      headers: response.headers,
+    };
+    for (const interceptor of config.interceptors) {
+      httpResponse = (await interceptor.afterRequest?.(httpResponse, fetchOptions)) ?? httpResponse;
+    }
+    return httpResponse;
+  }
+
+  const responseBytesBuffer = await response.arrayBuffer().finally(() => release?.());
   const content = Streamer.fromBuffer(responseBytesBuffer);
   const jsonData = ((): Resp => {
-    if (contentType.includes('application/json')) {
+    // A 304 (Not Modified) response to a cache revalidation has no body.
+    if (isJson && response.status !== 304) {
       const text = new TextDecoder().decode(responseBytesBuffer);
       return Serializable.deserialize(text);
     }
@@ -265,38 +520,33 @@ export async function _fetch<Req = JsonData, Resp = JsonData>(
     status: response.status,
     data: jsonData,
     buffer: content,
-    headers: Object.fromEntries(response.headers.entries()),
+    headers: response.headers,
   };
 
   // Apply afterRequest interceptors if any.
-  if (config?.hasInterceptors) {
-    httpResponse = Array.from(config.interceptors).reduce(
-      (rsp: HttpResponse<Resp>, i: Interceptor) => i.afterRequest?.(rsp) ?? rsp,
-      httpResponse,
-    ) as HttpResponse<Resp>;
+  for (const interceptor of config.interceptors) {
+    httpResponse = (await interceptor.afterRequest?.(httpResponse, fetchOptions)) ?? httpResponse;
   }
 
   // Should retry the request?
   if (httpResponse.status >= 400) {
-    const { retries = 0 } = fetchOptions;
-
-    // when unauthorized
-    if (httpResponse.status == 401 && config.auth?.type === 'oauth' && retries < config.maxRetries) {
-      await config.auth.oauth?.refreshToken(config);
-      return _fetch(resource, { ...fetchOptions, retries: retries + 1 });
+    // when unauthorized (unless sent without credentials, e.g., the token request itself)
+    if (httpResponse.status == 401 && !fetchOptions.anonymous && config.auth?.isRenewable && retries < maxRetries) {
+      await config.auth.renew(config, requestInit.headers as Record<string, string>);
+      return fetchWithRetry(resource, { ...fetchOptions, retries: retries + 1 }, startedAt);
     }
 
     // when rate limit exceeded
-    if (httpResponse.status === 429 && retries < config.maxRetries) {
+    if (httpResponse.status === 429 && retries < maxRetries) {
       const retryDelay = httpResponse.headers['x-retry-after']
         ? parseFloat(httpResponse.headers['x-retry-after']!) * 1000
         : getRetryTimeout(retries);
 
-      await Utils.sleep(retryDelay);
-      return _fetch(resource, { ...fetchOptions, retries: retries + 1 });
+      await Utils.sleep(retryDelay, fetchOptions.cancellationToken);
+      return fetchWithRetry(resource, { ...fetchOptions, retries: retries + 1 }, startedAt);
     }
 
-    throw SparkApiError.when(httpResponse.status, {
+    const error = SparkApiError.when(httpResponse.status, {
       message: `failed to fetch <${resource}>`,
       cause: {
         request: {
@@ -312,6 +562,12 @@ export async function _fetch<Req = JsonData, Resp = JsonData>(
         },
       },
     });
+
+    // when transient failure (e.g., bad gateway)
+    const delay = retryAfter({ status: httpResponse.status, error });
+    if (delay !== undefined) return retry(delay, `status ${httpResponse.status}`);
+
+    return recover(error);
   }
 
   // otherwise, ok response.
@@ -320,24 +576,27 @@ export async function _fetch<Req = JsonData, Resp = JsonData>(
 
 export async function _download(
   resource: string,
-  options: RequestOptions & { method?: HttpMethod },
+  options: RequestOptions & { method?: HttpMethod; transport?: Transport },
 ): Promise<HttpResponse> {
   const { method = 'GET', headers: _headers = {}, params, cancellationToken } = options;
+  const { transport = getDefaultTransport() } = options;
   const url = Utils.formatUrl(resource, params);
   const headers = { 'Content-Type': 'application/json', ..._headers };
 
-  return nodeFetch(url, { method, headers, redirect: 'manual', signal: cancellationToken })
+  return transport
+    .send({ url, method, headers, signal: cancellationToken })
     .then(async (response) => {
-      if (!response.ok || response.status >= 400) throw response;
+      if (response.status < 200 || response.status >= 300) throw response;
       return {
         buffer: Streamer.fromBuffer(await response.arrayBuffer()),
         status: response.status,
-        headers: Object.fromEntries(response.headers.entries()),
+        headers: response.headers,
         data: null,
       };
     })
     .catch(async (response) => {
       if (response instanceof Error) {
+        if (isAbortError(response)) throw response;
         throw new SparkSdkError({ message: `failed to fetch <${resource}>`, cause: response });
       }
 
@@ -346,8 +605,12 @@ export async function _download(
         message: `failed to download resource from <${resource}>`,
         cause: {
           request: { url, method, headers, body: null },
-          response: { headers: response.headers, body: response.data, raw },
+          response: { headers: response.headers, body: null, raw },
         },
       });
     });
 }
+
+function isAbortError(error: unknown): boolean {
+  return (error as Error)?.name === 'AbortError';
+}
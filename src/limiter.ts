@@ -0,0 +1,181 @@
+import { type CancellationToken } from './http';
+import { SparkError } from './error';
+import { NumberUtils, abortError } from './utils';
+
+const ABORT_MESSAGE = 'request aborted while waiting for the rate limiter';
+
+/**
+ * The settings of a client-side rate limiter.
+ *
+ * A token bucket caps how many requests get started per interval, and a concurrency
+ * limit caps how many requests are in flight at once. Either one may be used alone.
+ * Retries and token requests are subject to the same limits.
+ */
+export interface LimiterOptions {
+  /**
+   * The maximum number of requests started per interval (e.g., 10 requests per second).
+   */
+  readonly rate?: number;
+
+  /**
+   * The interval (in milliseconds) over which `rate` applies (defaults to 1 second).
+   */
+  readonly interval?: number;
+
+  /**
+   * The maximum number of requests that can be started at once after a quiet period,
+   * i.e., the capacity of the token bucket (defaults to `rate`).
+   */
+  readonly burst?: number;
+
+  /**
+   * The maximum number of requests in flight at any given time.
+   */
+  readonly maxConcurrency?: number;
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal?: CancellationToken;
+  onAbort?: () => void;
+}
+
+/**
+ * A client-side rate limiter and concurrency governor.
+ *
+ * Requests wait in a FIFO queue until both a token and a concurrency slot are
+ * available. A limiter is shared by all the resources created from the same client
+ * (including copies of its configuration), and may be shared by several clients
+ * targeting the same tenant.
+ */
+export class RateLimiter implements LimiterOptions {
+  readonly rate?: number;
+  readonly interval: number;
+  readonly burst?: number;
+  readonly maxConcurrency?: number;
+
+  #tokens: number;
+  #refilledAt: number = Date.now();
+  #inFlight: number = 0;
+  #timer?: ReturnType<typeof setTimeout>;
+  readonly #queue: Waiter[] = [];
+
+  /**
+   * @param {LimiterOptions} options - the rate and concurrency limits
+   * @throws {SparkError} if any of the limits is not a positive number.
+   */
+  constructor(options: LimiterOptions = {}) {
+    const { rate, interval = 1000, burst = rate, maxConcurrency } = options;
+    for (const [name, value] of Object.entries({ rate, interval, burst, maxConcurrency })) {
+      if (value !== undefined && !NumberUtils.isPositive(value)) {
+        throw SparkError.sdk({ message: `limiter ${name} must be a positive number`, cause: value });
+      }
+    }
+
+    this.rate = rate;
+    this.interval = interval;
+    this.burst = rate ? Math.max(1, Math.floor(burst!)) : undefined;
+    this.maxConcurrency = maxConcurrency ? Math.max(1, Math.floor(maxConcurrency)) : undefined;
+    this.#tokens = this.burst ?? 0;
+  }
+
+  /**
+   * Builds a rate limiter from the given options; an existing limiter is returned as-is.
+   */
+  static from(options: LimiterOptions | RateLimiter): RateLimiter {
+    return options instanceof RateLimiter ? options : new this(options);
+  }
+
+  /** The number of requests currently in flight. */
+  get inFlight(): number {
+    return this.#inFlight;
+  }
+
+  /** The number of requests waiting for their turn. */
+  get pending(): number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Waits for a token and a concurrency slot.
+   * @param {CancellationToken} signal - aborts the wait (and removes the request from the queue)
+   * @returns a function to call once the request completes to free its concurrency slot.
+   * @throws {Error} an `AbortError` if the signal is aborted while waiting.
+   */
+  acquire(signal?: CancellationToken): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError(signal, ABORT_MESSAGE));
+
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.#queue.indexOf(waiter);
+          if (index < 0) return;
+          this.#queue.splice(index, 1);
+          reject(abortError(signal, ABORT_MESSAGE));
+          this.#drain();
+        };
+        signal.addEventListener('abort', waiter.onAbort);
+      }
+
+      this.#queue.push(waiter);
+      this.#drain();
+    });
+  }
+
+  /**
+   * Runs the given function once a token and a concurrency slot are available.
+   */
+  async schedule<T>(fn: () => Promise<T>, signal?: CancellationToken): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  toJson(): LimiterOptions {
+    return { rate: this.rate, interval: this.interval, burst: this.burst, maxConcurrency: this.maxConcurrency };
+  }
+
+  #refill(): void {
+    if (!this.rate) return;
+
+    const now = Date.now();
+    const tokens = ((now - this.#refilledAt) / this.interval) * this.rate;
+    this.#tokens = Math.min(this.burst!, this.#tokens + tokens);
+    this.#refilledAt = now;
+  }
+
+  #drain(): void {
+    this.#refill();
+
+    while (this.#queue.length > 0) {
+      if (this.maxConcurrency && this.#inFlight >= this.maxConcurrency) return; // wait for a release
+      if (this.rate && this.#tokens < 1) break; // wait for a refill
+
+      const waiter = this.#queue.shift()!;
+      if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      if (this.rate) this.#tokens -= 1;
+      this.#inFlight += 1;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.#inFlight -= 1;
+        this.#drain();
+      });
+    }
+
+    if (this.#queue.length > 0 && !this.#timer) {
+      const delay = Math.ceil(((1 - this.#tokens) * this.interval) / this.rate!);
+      this.#timer = setTimeout(() => {
+        this.#timer = undefined;
+        this.#drain();
+      }, delay);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { SparkError } from './error';
+import { NumberUtils } from './utils';
+
+/**
+ * The settings of a paginated listing (e.g., walking every folder).
+ */
+export interface PaginationOptions {
+  /** The number of items fetched per page (defaults to 100). */
+  pageSize?: number;
+
+  /** The maximum number of items to yield overall (defaults to all of them). */
+  maxItems?: number;
+
+  /** The page to start from (defaults to 1). */
+  startPage?: number;
+
+  /** The sort order of the items (e.g., `-updated`). */
+  sort?: string;
+}
+
+/**
+ * A page of items as returned by a list or search endpoint.
+ */
+export interface Page<T> {
+  /** The items of the page. */
+  readonly items: T[];
+  /** The total number of items across all pages, if reported by the API. */
+  readonly total?: number;
+}
+
+/**
+ * Fetches the given page (1-based) of items.
+ */
+export type PageFetcher<T> = (paging: { page: number; size: number; sort?: string }) => Promise<Page<T>>;
+
+/**
+ * Iterates over the items of a list or search endpoint, one page at a time.
+ *
+ * Pages are fetched lazily, i.e., only when the items of the previous page have all
+ * been consumed; breaking out of a `for await...of` loop stops the pagination.
+ * The iteration ends with the last page, or once `maxItems` items have been yielded.
+ *
+ * @example
+ * for await (const folder of spark.folder.findAll({ category: 'Other' })) {
+ *   if (folder.name === 'my-folder') break;
+ * }
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  readonly pageSize: number;
+  readonly maxItems: number;
+  readonly startPage: number;
+  readonly sort?: string;
+
+  /**
+   * @param {PageFetcher<T>} fetchPage - how to fetch a page of items
+   * @param {PaginationOptions} options - the pagination settings
+   */
+  constructor(
+    private readonly fetchPage: PageFetcher<T>,
+    options: PaginationOptions = {},
+  ) {
+    const { pageSize = 100, maxItems = Infinity, startPage = 1, sort } = options;
+    if (!Number.isInteger(pageSize) || !NumberUtils.isPositive(pageSize)) {
+      throw SparkError.sdk({ message: 'page size must be a positive integer', cause: pageSize });
+    }
+    if (!NumberUtils.isPositive(maxItems)) {
+      throw SparkError.sdk({ message: 'maximum number of items must be a positive number', cause: maxItems });
+    }
+    if (!Number.isInteger(startPage) || !NumberUtils.isPositive(startPage)) {
+      throw SparkError.sdk({ message: 'start page must be a positive integer', cause: startPage });
+    }
+
+    this.pageSize = pageSize;
+    this.maxItems = maxItems;
+    this.startPage = startPage;
+    this.sort = sort;
+  }
+
+  /**
+   * Iterates over the pages rather than the items.
+   * The last page may be truncated so that no more than `maxItems` items are yielded.
+   */
+  async *pages(): AsyncGenerator<T[]> {
+    let count = 0;
+    for (let page = this.startPage; count < this.maxItems; page++) {
+      const { items, total } = await this.fetchPage({ page, size: this.pageSize, sort: this.sort });
+      const yielded = items.slice(0, this.maxItems - count);
+      if (yielded.length === 0) return;
+
+      count += yielded.length;
+      yield yielded;
+
+      const fetched = (page - 1) * this.pageSize + items.length;
+      if (items.length < this.pageSize || (total !== undefined && fetched >= total)) return;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const items of this.pages()) yield* items;
+  }
+
+  /**
+   * Gathers all the items into an array.
+   */
+  collect(): Promise<T[]> {
+    return collect(this);
+  }
+}
+
+/**
+ * Gathers the items of an async iterable (e.g., a `Paginator`) into an array.
+ */
+export async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
@@ -0,0 +1,177 @@
+import { type CancellationToken } from './http';
+import { type BackoffStrategy } from './retry';
+import { Logger } from './logger';
+import { SparkError } from './error';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_INTERVAL } from './constants';
+import { DEFAULT_RETRY_MAX_DELAY_IN_MS, RETRY_RANDOMIZATION_FACTOR } from './constants';
+import Utils, { NumberUtils, abortError } from './utils';
+
+/**
+ * A snapshot of a long-running job, reported after each status check.
+ */
+export interface PollingProgress {
+  /** The number of status checks performed so far. */
+  readonly attempt: number;
+  /** The time (in milliseconds) elapsed since the polling started. */
+  readonly elapsed: number;
+  /** The completion percentage of the job, if reported by the API. */
+  readonly percent?: number;
+  /** The status of the job, if reported by the API. */
+  readonly status?: string;
+  /** Whether the job is complete. */
+  readonly done: boolean;
+}
+
+/**
+ * The settings of a polling workflow (e.g., waiting for a compilation or export job).
+ */
+export interface PollingOptions {
+  /**
+   * The maximum number of status checks after the first one (defaults to `Config.maxRetries`).
+   */
+  maxRetries?: number;
+
+  /**
+   * The base interval (in seconds) between two status checks (defaults to `Config.retryInterval`).
+   */
+  retryInterval?: number;
+
+  /**
+   * The overall time limit, either as a duration (in milliseconds) or as a point in time.
+   * Once reached, the polling stops even if more status checks are allowed.
+   */
+  deadline?: number | Date;
+
+  /**
+   * How the delay grows between status checks: a backoff strategy based on `retryInterval`,
+   * or a function returning the delay (in milliseconds) before the given attempt.
+   * By default, the delay grows linearly with some randomization.
+   */
+  backoff?: BackoffStrategy | ((attempt: number) => number);
+
+  /**
+   * Called after each status check (e.g., to update a progress bar).
+   */
+  onProgress?: (progress: PollingProgress) => void;
+}
+
+/**
+ * Describes how to check on a long-running job.
+ */
+export interface PollingTask<T> {
+  /** The name of the job used in logs and errors (e.g., "export job <id>"). */
+  readonly name: string;
+  /** Fetches the latest state of the job. */
+  check(): Promise<T>;
+  /** Whether the job is complete given its latest state. */
+  isDone(state: T): boolean;
+  /** Extracts the progress (percentage and status) from the latest state, if any. */
+  progress?(state: T): Pick<PollingProgress, 'percent' | 'status'>;
+}
+
+/**
+ * Pins a deadline given as a duration to a point in time, so that it covers a whole
+ * workflow (e.g., initiating a job, then polling its status) rather than its polling only.
+ */
+export function pinDeadline(deadline?: number | Date): Date | undefined {
+  return typeof deadline === 'number' ? new Date(Date.now() + deadline) : deadline;
+}
+
+/**
+ * The polling engine shared by the long-running workflows of the SDK.
+ *
+ * It checks on a job until it completes, waiting between status checks according
+ * to the backoff strategy. The polling stops with a `SparkSdkError` once the number
+ * of status checks or the deadline is exhausted, and with an `AbortError` as soon as
+ * its cancellation token is aborted.
+ */
+export class Poller {
+  readonly maxRetries: number;
+  readonly retryInterval: number;
+  readonly deadline?: number | Date;
+  readonly backoff?: PollingOptions['backoff'];
+  readonly onProgress?: PollingOptions['onProgress'];
+
+  /**
+   * @param {PollingOptions} options - the polling settings
+   * @param {CancellationToken} signal - aborts the polling
+   * @param {Logger} logger - where to report the progress, if any
+   */
+  constructor(
+    options: PollingOptions = {},
+    readonly signal?: CancellationToken,
+    readonly logger?: Logger,
+  ) {
+    const { maxRetries = DEFAULT_MAX_RETRIES, retryInterval = DEFAULT_RETRY_INTERVAL, deadline } = options;
+    if (deadline !== undefined && !(deadline instanceof Date) && !NumberUtils.isPositive(deadline)) {
+      throw SparkError.sdk({ message: 'polling deadline must be a positive number or a date', cause: deadline });
+    }
+
+    this.maxRetries = maxRetries;
+    this.retryInterval = retryInterval;
+    this.deadline = deadline;
+    this.backoff = options.backoff;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Computes the delay (in milliseconds) before the given status check.
+   * @param {number} attempt - the number of status checks already performed
+   */
+  getDelay(attempt: number): number {
+    const { backoff } = this;
+    if (typeof backoff === 'function') return Math.max(0, backoff(attempt));
+
+    const base = this.retryInterval * 1000;
+    if (backoff === 'constant') return base;
+    if (backoff === 'linear') return Math.min(DEFAULT_RETRY_MAX_DELAY_IN_MS, base * attempt);
+    if (backoff === 'exponential') return Math.min(DEFAULT_RETRY_MAX_DELAY_IN_MS, base * 2 ** (attempt - 1));
+    return Math.ceil(attempt * base * Math.random() * RETRY_RANDOMIZATION_FACTOR);
+  }
+
+  /**
+   * Checks on the job until it completes.
+   * @param {PollingTask<T>} task - how to check on the job
+   * @returns the latest state of the completed job
+   * @throws {SparkSdkError} if the job does not complete in time.
+   * @throws {Error} an `AbortError` if the cancellation token is aborted.
+   */
+  async run<T>(task: PollingTask<T>): Promise<T> {
+    const startedAt = Date.now();
+    const deadlineAt =
+      this.deadline instanceof Date ? this.deadline.getTime() : this.deadline ? startedAt + this.deadline : Infinity;
+
+    for (let attempt = 1; ; attempt++) {
+      if (this.signal?.aborted) throw abortError(this.signal, `${task.name} polling aborted`);
+
+      const state = await task.check();
+      const done = task.isDone(state);
+      const progress = { attempt, elapsed: Date.now() - startedAt, ...task.progress?.(state), done };
+      this.onProgress?.(progress);
+      if (done) {
+        this.logger?.log(`${task.name} completed`);
+        return state;
+      }
+
+      if (attempt > this.maxRetries) {
+        const error = SparkError.sdk({
+          message: `${task.name} timed out after ${attempt} status checks`,
+          cause: state,
+        });
+        this.logger?.error(error.message);
+        throw error;
+      }
+
+      const remaining = deadlineAt - Date.now();
+      if (remaining <= 0) {
+        const error = SparkError.sdk({ message: `${task.name} did not complete before the deadline`, cause: state });
+        this.logger?.error(error.message);
+        throw error;
+      }
+
+      const percent = progress.percent !== undefined ? ` - ${progress.percent}%` : '';
+      this.logger?.log(`waiting for ${task.name} to complete (attempt ${attempt} of ${this.maxRetries + 1})${percent}`);
+      await Utils.sleep(Math.min(this.getDelay(attempt), remaining), this.signal);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import Utils, { Maybe, loadModule } from './utils';
+import { SparkError } from './error';
+import { ENV_VARS } from './constants';
+import { type OAuthCredentials } from './auth';
+import { type RetryOptions } from './retry';
+import { type LimiterOptions } from './limiter';
+import { type LogLevel, type LoggerOptions } from './logger';
+
+/**
+ * The settings of a named profile, as found in the profiles file.
+ *
+ * These are a JSON-friendly subset of `ClientOptions`.
+ */
+export interface ProfileSettings {
+  readonly baseUrl?: string;
+  readonly tenant?: string;
+  readonly env?: string;
+  readonly hosts?: { readonly trusted?: string[]; readonly strict?: boolean };
+  readonly apiKey?: string;
+  readonly token?: string;
+  readonly oauth?: Readonly<OAuthCredentials> | string;
+  readonly timeout?: number;
+  readonly maxRetries?: number;
+  readonly retryInterval?: number;
+  readonly retry?: Omit<RetryOptions, 'errors'>;
+  readonly limiter?: LimiterOptions;
+  readonly logger?: boolean | LogLevel | LogLevel[] | Omit<LoggerOptions, 'logger'>;
+  readonly allowBrowser?: boolean;
+}
+
+/**
+ * A named set of client settings read from the profiles file.
+ *
+ * The profiles file (`~/.cspark/config` by default, or `process.env['CSPARK_CONFIG_FILE']`)
+ * is a JSON file mapping profile names to their settings, e.g.:
+ * ```json
+ * {
+ *   "default": { "env": "sit", "tenant": "my-tenant", "apiKey": "my-api-key" },
+ *   "prod": { "baseUrl": "https://excel.us.coherent.global/my-tenant", "oauth": "path/to/credentials.json" }
+ * }
+ * ```
+ */
+export class Profile {
+  static readonly DEFAULT_NAME = 'default';
+
+  protected constructor(
+    readonly name: string,
+    readonly settings: ProfileSettings,
+    readonly filePath: string,
+  ) {}
+
+  /**
+   * The location of the profiles file, if it can be determined.
+   */
+  static get filePath(): string | undefined {
+    const homeDir = Utils.getHomeDir();
+    return Utils.readEnv(ENV_VARS.CONFIG_FILE) || (homeDir ? `${homeDir}/.cspark/config` : undefined);
+  }
+
+  /**
+   * Loads a profile from the profiles file.
+   * @param {string} name - the profile name (defaults to `process.env['CSPARK_PROFILE']`).
+   * @param {string} filePath - the location of the profiles file.
+   * @returns the profile if found; `undefined` if no profile was requested and the
+   * file has no default profile.
+   * @throws {SparkError} if the requested profile cannot be loaded.
+   */
+  static load(name: string | undefined = Utils.readEnv(ENV_VARS.PROFILE), filePath = Profile.filePath): Maybe<Profile> {
+    const isRequested = !!name;
+    if (Utils.isBrowser()) {
+      if (!isRequested) return undefined;
+      throw SparkError.sdk({ message: 'profiles are not supported in browser-like environments', cause: name });
+    }
+
+    const profiles = Profile.readFile(filePath, isRequested);
+    const profileName = name || Profile.DEFAULT_NAME;
+    const settings = profiles?.[profileName];
+
+    if (settings === undefined) {
+      if (!isRequested) return undefined;
+      throw SparkError.sdk({ message: `profile <${profileName}> not found in <${filePath}>`, cause: name });
+    }
+    if (!Utils.isObject(settings)) {
+      throw SparkError.sdk({ message: `profile <${profileName}> must be a JSON object`, cause: name });
+    }
+    return new this(profileName, settings as ProfileSettings, filePath!);
+  }
+
+  private static readFile(filePath: string | undefined, isRequired: boolean): Record<string, unknown> | undefined {
+    const fs = loadModule('fs');
+    if (!filePath || !fs?.existsSync(filePath)) {
+      if (!isRequired) return undefined;
+      throw SparkError.sdk({ message: 'profiles file not found', cause: filePath });
+    }
+
+    let profiles: unknown;
+    try {
+      profiles = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch {
+      profiles = undefined; // parsing errors may quote secrets, hence not reported.
+    }
+
+    if (Utils.isObject(profiles)) return profiles;
+    throw SparkError.sdk({ message: `profiles file <${filePath}> must be a JSON object of named profiles` });
+  }
+}
@@ -4,7 +4,13 @@ import { JsonData } from '../data';
 import { SparkError } from '../error';
 import { Logger } from '../logger';
 import { about as sdkInfo, sdkUaHeader } from '../version';
-import { _fetch, _download, HttpOptions, HttpResponse } from '../http';
+import { _fetch, _download, CallOptions, HttpOptions, HttpResponse } from '../http';
+import { Poller, PollingOptions, PollingTask } from '../polling';
+import { type CacheableEndpoint } from '../cache';
+import { Streamer } from '../streaming';
+import { extractSchemas } from '../codegen';
+import { SchemaValidator } from '../validators';
+import { type Transport } from '../transport';
 import Utils, { StringUtils, Maybe, sanitizeUri } from '../utils';
 
 /**
@@ -62,36 +68,124 @@ export abstract class ApiResource {
    * Makes an HTTP request to the Spark API.
    * @param url - The URL to make the request to.
    * @param options - The HTTP options for the request.
+   * @param callOptions - The per-call options given by the caller, if any.
    *
    * This method is the core of the entire SDK and is responsible for making HTTP
-   * requests to the Spark API. It uses the `node-fetch` module to perform the
-   * actual request.
+   * requests to the Spark API. It uses the configured `Transport` (native fetch
+   * API or `node-fetch` by default) to perform the actual request.
    *
    * Key features of this method include:
    * - By default, it makes a GET request, but the `method` option can be used to specify other HTTP methods.
    * - It dynamically injects the authorization header extracted from the `Config` object.
    * - It concatenates the URL with any query parameters specified in the `options` object.
    * - If enabled, it prints out the method and URL (without query parameters) for debugging purposes.
-   * - It supports interceptors to modify the request and response.
+   * - It supports (async) interceptors to modify the request and response, and to
+   *   recover from failures. A per-request `context` object flows through all hooks.
    * - It automatically performs retries under certain conditions, such as unauthorized errors or exceeded rate limits.
    * - It wraps any error into a `SparkError` object for better error handling,
    *   except for AbortSignal errors, which are rethrown.
    *
+   * The per-call `options` given to public resource methods (see `CallOptions`) are
+   * merged last: their headers and params are added, and their settings (e.g., timeout,
+   * cancellation token) take precedence over the request's and the client's.
+   *
+   * Requests marked with `cacheAs` may be served from the response cache, if enabled
+   * (see `Config.cache`). They're cached per method, URL, query params and body.
+   *
    * It is recommended to use this method for all API requests in the SDK, as it
    * provides a consistent and reliable way to interact with the Spark API.
    */
   protected request<Result = JsonData, Body = JsonData>(
     url: string | Uri,
-    { method = 'GET', headers = {}, ...opts }: Omit<HttpOptions<Body>, 'config'> = {},
+    { method = 'GET', headers = {}, context = {}, cacheAs, ...opts }: ResourceRequestOptions<Body> = {},
+    { headers: extraHeaders, params: extraParams, ...overrides }: CallOptions = {},
   ): Promise<HttpResponse<Result>> {
     url = StringUtils.isString(url) ? url : url.value;
     this.logger.debug(`${method} ${url}`);
-    return _fetch<Body, Result>(url, {
-      ...opts,
-      method,
-      headers: { ...headers, ...this.defaultHeaders },
-      config: this.config,
-    });
+    const params = extraParams ? { ...opts.params, ...extraParams } : opts.params;
+    const send = (revalidation: Record<string, string> = {}) =>
+      _fetch<Body, Result>(url as string, {
+        ...opts,
+        ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+        method,
+        headers: { ...headers, ...revalidation, ...this.defaultHeaders, ...extraHeaders },
+        params,
+        context: overrides.context ?? context,
+        config: this.config,
+      });
+
+    const { cache } = this.config;
+    const ttl = cacheAs && cache ? cache.ttlFor(cacheAs, overrides.cache ?? opts.cache) : 0;
+    if (!cache || ttl === 0) return send();
+    return cache.keyFor(method, url, params, opts.body).then((key) => cache.fetch(key, ttl, send));
+  }
+
+  /**
+   * Validates the inputs of a service against its input schema.
+   * @param uri - How to locate the service.
+   * @param inputs - The inputs of a single execution, or the records of a batch.
+   * @param options - The per-call options given by the caller.
+   * @throws {SparkSdkError} listing every violation as its `cause` if the inputs are invalid.
+   *
+   * The input schema is extracted from the Swagger documentation of the service,
+   * which is fetched once per service and version, then cached by the client config.
+   * Since the Swagger documentation is only available by version ID, the validation
+   * is skipped if the version is otherwise pinned (semantic version or effective date)
+   * rather than checking the inputs against the schema of another version.
+   */
+  protected async validateInputs(
+    uri: UriParams & { activeSince?: string },
+    inputs: unknown,
+    options: CallOptions = {},
+  ): Promise<void> {
+    const { folder, service, serviceId, version, versionId = '', activeSince } = uri;
+    if (!versionId && (version || activeSince)) {
+      this.logger.debug(`skipping input validation of <${version ?? activeSince}> version: no version ID`);
+      return;
+    }
+
+    const key = `${this.config.baseUrl.full}/${Uri.encode({ folder, service, serviceId })}/${versionId}`;
+    let schema = this.config.schemas.get(key);
+    if (!schema) {
+      const endpoint = `downloadswagger/All/false/${versionId}`;
+      const url = Uri.from({ folder, service, serviceId }, { base: this.config.baseUrl.full, endpoint });
+      const response = await this.request(url, { stream: false }, options);
+      const swagger = response.data ?? JSON.parse((await Streamer.toBuffer(response.buffer)).toString());
+      schema = extractSchemas(swagger).inputs;
+      this.config.schemas.set(key, schema);
+    }
+
+    // The records of a batch are checked one by one (e.g., `inputs[2].age must be a number`).
+    const validator = new SchemaValidator(Array.isArray(inputs) ? { type: 'array', items: schema } : schema);
+    try {
+      validator.validate(inputs);
+    } catch (error) {
+      this.logger.error((error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks on a long-running job until it completes.
+   * @param task - How to check on the job.
+   * @param params - The polling settings, defaulting to the client's retry settings.
+   * @param options - The per-call options given by the caller, whose cancellation
+   * token aborts the polling.
+   *
+   * All the polling workflows of the SDK (e.g., compilation, export, import and log
+   * download jobs) should rely on this method for consistent cancellation, deadlines
+   * and progress reporting.
+   * @see Poller for more details.
+   */
+  protected poll<T>(task: PollingTask<T>, params: PollingOptions = {}, options: CallOptions = {}): Promise<T> {
+    const { maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params;
+    const { deadline, backoff, onProgress } = params;
+    const poller = new Poller(
+      { maxRetries, retryInterval, deadline, backoff, onProgress },
+      options.cancellationToken,
+      this.logger,
+    );
+    return poller.run(task);
   }
 }
 
@@ -281,19 +375,35 @@ export class Uri {
 
 export type UriOptions = { base: string; version?: string; endpoint?: string };
 
+/**
+ * The request options built by resource methods, i.e., `HttpOptions` without the client
+ * configuration, which may flag the endpoint whose responses can be cached.
+ */
+export type ResourceRequestOptions<Body = JsonData> = Omit<HttpOptions<Body>, 'config'> & {
+  cacheAs?: CacheableEndpoint;
+};
+
 /**
  * Downloads a resource from the given URL.
  *
  * @param url path to the resource
- * @param auth method of authentication if any.
+ * @param auth method of authentication if any, or the client configuration to
+ * authorize the download with (e.g., `spark.config`).
+ * @param transport HTTP transport to use (e.g., `spark.config.transport` to reuse its network settings),
+ * defaulting to the one of the client configuration if given.
  * @returns a Readable stream of the obtained blob.
  *
  * Spark may issue URLs to download resources that may or not require authentication.
  * This is made available to the user in case they need to download a resource after
  * performing an action (e.g., rehydrate, import, export, etc.).
+ *
+ * Only the client configuration allows credential providers to be invoked and OAuth2
+ * access tokens to be retrieved or refreshed; a bare authorization is used as is.
  */
-export async function download(url: string, auth?: Authorization) {
-  return _download(url, { headers: { ...auth?.asHeader } }).then((response) => response.buffer);
+export async function download(url: string, auth?: Authorization | Config, transport?: Transport) {
+  const headers = auth instanceof Config ? await auth.auth.authorize(auth) : { ...auth?.asHeader };
+  transport ??= auth instanceof Config ? auth.transport : undefined;
+  return _download(url, { headers, transport }).then((response) => response.buffer);
 }
 
 export interface ApiResponse {
@@ -1,9 +1,9 @@
 import { type Config } from '../config';
-import { HttpResponse } from '../http';
+import { CallOptions, CancellationToken, HttpResponse } from '../http';
 import { Serializable } from '../data';
 import { SPARK_SDK } from '../constants';
-import { SparkError } from '../error';
-import Utils, { DateUtils, StringUtils, getUuid } from '../utils';
+import { SparkError, SparkApiError, SparkSdkError } from '../error';
+import Utils, { DateUtils, NumberUtils, StringUtils, abortError, getUuid } from '../utils';
 
 import { ApiResource, Uri, UriOptions, UriParams } from './base';
 
@@ -12,24 +12,32 @@ export class Batch extends ApiResource {
    * Executes multiple records synchronously.
    * @param {string} uri - how to locate the service
    * @param {ExecuteParams<Inputs>} params - the execution parameters (inputs, metadata, etc.)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServiceExecuted<Outputs>>} the executed service outputs
    * @throws {SparkError} if the service execution fails or no inputs are provided.
    */
-  execute<Inputs, Outputs>(uri: string, params: ExecuteParams<Inputs>): Promise<HttpResponse<ServiceExecuted<Outputs>>>;
+  execute<Inputs, Outputs>(
+    uri: string,
+    params: ExecuteParams<Inputs>,
+    options?: CallOptions,
+  ): Promise<HttpResponse<ServiceExecuted<Outputs>>>;
   /**
    * Executes multiple records synchronously.
    * @param {UriParams} uri - use fine-grained details to locate the service
    * @param {ExecuteParams<Inputs>} params - the execution parameters (inputs, metadata, etc.)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServiceExecuted<Outputs>>} the executed service outputs
    * @throws {SparkError} if the service execution fails or no inputs are provided.
    */
   execute<Inputs, Outputs>(
     uri: Omit<UriParams, 'proxy'>,
     params: ExecuteParams<Inputs>,
+    options?: CallOptions,
   ): Promise<HttpResponse<ServiceExecuted<Outputs>>>;
   execute<Inputs, Outputs>(
     uri: string | Omit<UriParams, 'proxy'>,
     params: ExecuteParams<Inputs>,
+    options?: CallOptions,
   ): Promise<HttpResponse<ServiceExecuted<Outputs>>> {
     const { folder, service, version, serviceId, versionId, ...rest } = Uri.toParams(uri);
     const serviceUri = serviceId ?? params?.data?.serviceUri ?? Uri.encode({ folder, service, version }, false);
@@ -42,22 +50,67 @@ export class Batch extends ApiResource {
       throw error;
     }
 
-    return this.request<ServiceExecuted<Outputs>, ExecuteBody<Inputs>>(url, { method: 'POST', body });
+    const execute = () =>
+      this.request<ServiceExecuted<Outputs>, ExecuteBody<Inputs>>(
+        url,
+        { method: 'POST', body, idempotent: params?.idempotent },
+        options,
+      );
+
+    if (!(params?.validateInputs ?? this.config.validateInputs)) return execute();
+    const located = serviceId ? { serviceId } : Uri.toParams(serviceUri);
+    const pinned = { versionId: body.version_id, activeSince: body.version_by_timestamp };
+    return this.validateInputs({ ...located, ...pinned }, body.inputs, options).then(execute);
+  }
+
+  /**
+   * Executes any number of records synchronously, chunk by chunk.
+   * @param {string | UriParams} uri - how to locate the service
+   * @param {ExecuteManyParams<Inputs>} params - the records to execute, and how to chunk them
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {ChunkedExecution<Inputs, Outputs>} the results of the records, in input order
+   *
+   * Records are read lazily from an iterable or async iterable (e.g., a file read line
+   * by line), split into chunks bounded in size and/or bytes, and executed with bounded
+   * concurrency. Chunks failing with a transient error are retried. Results are yielded
+   * in input order, each correlated with the index of its record.
+   *
+   * @example
+   * for await (const result of spark.batch.executeMany('my-folder/my-service', { records })) {
+   *   console.log(result.index, result.outputs);
+   * }
+   */
+  executeMany<Inputs, Outputs>(
+    uri: string | Omit<UriParams, 'proxy'>,
+    params: ExecuteManyParams<Inputs>,
+    options?: CallOptions,
+  ): ChunkedExecution<Inputs, Outputs> {
+    const { data, idempotent, validateInputs } = params;
+    const execute = (inputs: Inputs[], signal: CancellationToken) =>
+      this.execute<Inputs, Outputs>(
+        Uri.toParams(uri),
+        { data: { ...data, inputs }, idempotent, validateInputs },
+        { ...options, cancellationToken: signal },
+      );
+
+    return new ChunkedExecution<Inputs, Outputs>(execute, params, this.config, options?.cancellationToken);
   }
 
   /**
    * Creates a batch pipeline for asynchronous execution.
    * @param {string} uri - where the service is located
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<BatchCreated>>} the batch pipeline details
    */
-  create(uri: string): Promise<HttpResponse<BatchCreated>>;
+  create(uri: string, options?: CallOptions): Promise<HttpResponse<BatchCreated>>;
   /**
    * Creates a batch pipeline for asynchronous execution.
    * @param {CreateParams} params - where the service is located and additional metadata
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<BatchCreated>>} the batch pipeline details
    */
-  create(params: CreateParams): Promise<HttpResponse<BatchCreated>>;
-  create(uri: string | CreateParams): Promise<HttpResponse<BatchCreated>> {
+  create(params: CreateParams, options?: CallOptions): Promise<HttpResponse<BatchCreated>>;
+  create(uri: string | CreateParams, options?: CallOptions): Promise<HttpResponse<BatchCreated>> {
     const { folder, service, version, serviceId, ...params } = Uri.toParams(uri);
     const serviceUri = serviceId ?? params?.serviceUri ?? Uri.encode({ folder, service, version }, false);
     const url = Uri.from(undefined, { base: this.config.baseUrl.full, version: 'api/v4', endpoint: 'batch' });
@@ -75,7 +128,35 @@ export class Batch extends ApiResource {
       unique_record_key: params.inputKey,
     };
 
-    return this.request<BatchCreated>(url, { method: 'POST', body });
+    return this.request<BatchCreated>(url, { method: 'POST', body }, options);
+  }
+
+  /**
+   * Runs a batch pipeline end to end: creates it, pushes the input chunks, pulls
+   * the results, then closes it.
+   * @param {string | CreateParams} uri - where the service is located and additional metadata
+   * @param {ChunkSource<Inputs>} source - the input chunks: arrays of records or chunks with their ids
+   * @param {RunOptions} options - how to poll the pipeline and push the chunks
+   * @param {CallOptions} callOptions - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {BatchRun<Inputs, Outputs>} the chunk results, as they become available
+   *
+   * Input chunks are read lazily and pushed as long as the pipeline buffers have
+   * room for them, while results are pulled concurrently. The pipeline is closed
+   * once the input is exhausted, and cancelled if anything fails, if the cancellation
+   * token is aborted or if the iteration is stopped before the last result.
+   *
+   * @example
+   * for await (const { chunkId, outputs } of spark.batch.run('my-folder/my-service', chunks)) {
+   *   console.log(chunkId, outputs.length);
+   * }
+   */
+  run<Inputs, Outputs>(
+    uri: string | CreateParams,
+    source: ChunkSource<Inputs>,
+    options?: RunOptions,
+    callOptions?: CallOptions,
+  ): BatchRun<Inputs, Outputs> {
+    return new BatchRun<Inputs, Outputs>(this, uri, source, options, callOptions);
   }
 
   /**
@@ -122,6 +203,315 @@ export class Batch extends ApiResource {
   }
 }
 
+/**
+ * The records of a batch executed chunk by chunk (see `Batch.executeMany`).
+ *
+ * At most `concurrency` chunks are in flight at any given time; the next records
+ * are only read once a slot frees up, so that large datasets are never held in
+ * memory at once. Breaking out of a `for await...of` loop stops the execution,
+ * aborting the chunks still in flight.
+ */
+class ChunkedExecution<Inputs, Outputs> implements AsyncIterable<RecordExecuted<Inputs, Outputs>> {
+  readonly chunkSize: number;
+  readonly maxChunkBytes: number;
+  readonly concurrency: number;
+  readonly maxRetries: number;
+  readonly continueOnError: boolean;
+  readonly #records: Iterable<Inputs> | AsyncIterable<Inputs>;
+  readonly #summary = { records: 0, chunks: 0, retries: 0, failed: 0, warnings: 0, errors: 0, processTime: 0 };
+
+  constructor(
+    private readonly execute: (
+      inputs: Inputs[],
+      signal: CancellationToken,
+    ) => Promise<HttpResponse<ServiceExecuted<Outputs>>>,
+    params: ExecuteManyParams<Inputs>,
+    private readonly config: Config,
+    private readonly signal?: CancellationToken,
+  ) {
+    const { chunkSize = 100, maxChunkBytes = Infinity, concurrency = 4, continueOnError = false } = params;
+    const { maxRetries = config.maxRetries } = params;
+    for (const [name, value] of Object.entries({ chunkSize, concurrency })) {
+      if (!Number.isInteger(value) || !NumberUtils.isPositive(value)) {
+        throw SparkError.sdk({ message: `${name} must be a positive integer`, cause: value });
+      }
+    }
+    if (!NumberUtils.isPositive(maxChunkBytes)) {
+      throw SparkError.sdk({ message: 'maxChunkBytes must be a positive number', cause: maxChunkBytes });
+    }
+
+    this.#records = params.records;
+    this.chunkSize = chunkSize;
+    this.maxChunkBytes = maxChunkBytes;
+    this.concurrency = concurrency;
+    this.maxRetries = maxRetries;
+    this.continueOnError = continueOnError;
+  }
+
+  /**
+   * The running totals of the execution: records and chunks processed (i.e., yielded),
+   * chunk retries, failed records, warnings, errors and processing time (in milliseconds).
+   */
+  get summary(): Readonly<ExecutionSummary> {
+    return { ...this.#summary };
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<RecordExecuted<Inputs, Outputs>> {
+    // aborts the chunks in flight when stopped early, failing or cancelled.
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (this.signal?.aborted) controller.abort();
+    this.signal?.addEventListener('abort', abort);
+
+    const pending: Promise<RecordExecuted<Inputs, Outputs>[]>[] = [];
+    const next = async () => this.#tally(await pending.shift()!);
+    try {
+      for await (const chunk of this.#chunks()) {
+        const results = this.#run(chunk, controller.signal);
+        results.catch(() => {}); // rejections are surfaced in order, when their turn comes.
+        pending.push(results);
+        if (pending.length >= this.concurrency) yield* await next();
+      }
+      while (pending.length > 0) yield* await next();
+    } finally {
+      controller.abort();
+      this.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Gathers all the results, merged in input order as a single batch response would.
+   */
+  async collect(): Promise<ManyExecuted<Outputs>> {
+    const merged: ManyExecuted<Outputs> = { outputs: [], warnings: [], errors: [], process_time: [], failed: [] };
+    for await (const result of this) {
+      merged.outputs.push(result.outputs ?? null);
+      merged.warnings.push(result.warnings);
+      merged.errors.push(result.errors);
+      merged.process_time.push(result.processTime ?? 0);
+      if (result.error) merged.failed.push(result.index);
+    }
+    return merged;
+  }
+
+  async *#chunks(): AsyncGenerator<{ start: number; records: Inputs[] }> {
+    const encoder = new TextEncoder();
+    let chunk: Inputs[] = [];
+    let [start, bytes] = [0, 0];
+
+    for await (const record of this.#records) {
+      const size = this.maxChunkBytes < Infinity ? encoder.encode(JSON.stringify(record)).byteLength : 0;
+      if (chunk.length > 0 && (chunk.length >= this.chunkSize || bytes + size > this.maxChunkBytes)) {
+        yield { start, records: chunk };
+        [start, chunk, bytes] = [start + chunk.length, [], 0];
+      }
+      chunk.push(record);
+      bytes += size;
+    }
+    if (chunk.length > 0) yield { start, records: chunk };
+  }
+
+  async #run(
+    { start, records }: { start: number; records: Inputs[] },
+    signal: CancellationToken,
+  ): Promise<RecordExecuted<Inputs, Outputs>[]> {
+    for (let retries = 0; ; retries++) {
+      try {
+        const { data } = await this.execute(records, signal);
+        return records.map((inputs, i) => {
+          const [warnings = [], errors = [], processTime] = [
+            data.warnings?.[i],
+            data.errors?.[i],
+            data.process_time?.[i],
+          ];
+          return { index: start + i, inputs, outputs: data.outputs?.[i], warnings, errors, processTime };
+        });
+      } catch (error) {
+        if (signal.aborted) throw error;
+
+        if (retries < this.maxRetries && this.#isTransient(error)) {
+          this.#summary.retries += 1;
+          await Utils.sleep(this.config.retry.getDelay(retries), signal);
+          continue;
+        }
+        if (!this.continueOnError) throw error;
+
+        const failure = error as SparkError;
+        return records.map((inputs, i) => ({ index: start + i, inputs, warnings: [], errors: [], error: failure }));
+      }
+    }
+  }
+
+  /**
+   * Whether a chunk may be executed again: only the server failures listed by the
+   * retry policy and the network failures qualify, since the client-side ones (e.g.,
+   * invalid inputs) would fail again anyway.
+   */
+  #isTransient(error: unknown): boolean {
+    if (error instanceof SparkApiError) return !!error.status && this.config.retry.statuses.includes(error.status);
+    return error instanceof SparkSdkError && error.cause instanceof Error && !(error.cause instanceof SparkError);
+  }
+
+  /**
+   * Adds the results of a chunk to the summary once yielded.
+   */
+  #tally(results: RecordExecuted<Inputs, Outputs>[]): RecordExecuted<Inputs, Outputs>[] {
+    const summary = this.#summary;
+    summary.chunks += 1;
+    summary.records += results.length;
+    for (const { warnings, errors, processTime, error } of results) {
+      summary.warnings += warnings.length;
+      summary.errors += errors.length;
+      summary.processTime += processTime ?? 0;
+      if (error) summary.failed += 1;
+    }
+    return results;
+  }
+}
+
+/**
+ * A batch pipeline run end to end (see `Batch.run`).
+ *
+ * Two loops share the pipeline: one pushes the input chunks, waiting for the
+ * input buffer to have room for the next chunk (backpressure), while the other
+ * pulls the results, which are yielded as soon as they're available.
+ */
+class BatchRun<Inputs, Outputs> implements AsyncIterable<ChunkResult<Outputs>> {
+  readonly pollInterval: number;
+  readonly maxChunks: number;
+  #pipeline?: Pipeline;
+  #status?: Partial<BatchStatus>;
+
+  constructor(
+    private readonly batch: Batch,
+    private readonly uri: string | CreateParams,
+    private readonly source: ChunkSource<Inputs>,
+    private readonly options: RunOptions = {},
+    private readonly callOptions: CallOptions = {},
+  ) {
+    const { pollInterval = 1000, maxChunks = 100 } = options;
+    if (!NumberUtils.isPositive(pollInterval)) {
+      throw SparkError.sdk({ message: 'poll interval must be a positive number', cause: pollInterval });
+    }
+    if (!Number.isInteger(maxChunks) || !NumberUtils.isPositive(maxChunks)) {
+      throw SparkError.sdk({
+        message: 'maximum number of chunks to pull must be a positive integer',
+        cause: maxChunks,
+      });
+    }
+
+    this.pollInterval = pollInterval;
+    this.maxChunks = maxChunks;
+  }
+
+  /** The underlying pipeline, once created. */
+  get pipeline(): Pipeline | undefined {
+    return this.#pipeline;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ChunkResult<Outputs>> {
+    const signal = this.callOptions.cancellationToken;
+    const created = await this.batch.create(Uri.toParams(this.uri) as CreateParams, this.callOptions);
+    const pipeline = (this.#pipeline = this.batch.of(created.data.id));
+
+    const feed = { pushed: 0, done: false, error: undefined as unknown };
+    this.#feed(pipeline, feed).then(
+      () => (feed.done = true),
+      (error) => (feed.error = error),
+    );
+
+    let [received, settled] = [0, false];
+    try {
+      while (!feed.done || received < feed.pushed) {
+        if (feed.error) throw feed.error;
+        if (signal?.aborted) throw abortError(signal, `batch pipeline <${pipeline.id}> aborted`);
+
+        const { data } = await pipeline.pull<Outputs>(this.maxChunks, this.callOptions);
+        this.#status = data.status;
+        for (const { id, outputs, warnings, errors, process_time } of data.data ?? []) {
+          received++;
+          yield { chunkId: id, outputs, warnings, errors, processTime: process_time };
+        }
+        if ((settled = this.#isSettled(pipeline, feed.done))) break;
+        if (!data.data?.length && (!feed.done || received < feed.pushed)) {
+          await Utils.sleep(this.pollInterval, signal);
+        }
+      }
+    } finally {
+      // stops the pipeline on errors, aborts or when the iteration is stopped early.
+      const ended = settled || this.#hasFailed;
+      if (!ended && (pipeline.state === 'open' || received < feed.pushed || !feed.done)) {
+        // the cancellation token may already be aborted: the pipeline still needs cancelling.
+        feed.done = true;
+        await pipeline.cancel({ ...this.callOptions, cancellationToken: undefined }).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Gathers all the chunk results into an array.
+   */
+  async collect(): Promise<ChunkResult<Outputs>[]> {
+    const results: ChunkResult<Outputs>[] = [];
+    for await (const result of this) results.push(result);
+    return results;
+  }
+
+  async #feed(pipeline: Pipeline, feed: { pushed: number; done: boolean }): Promise<void> {
+    const signal = this.callOptions.cancellationToken;
+    const encoder = new TextEncoder();
+
+    for await (const item of this.source) {
+      if (feed.done) return; // the run has been stopped.
+
+      const chunk = Array.isArray(item) ? { id: getUuid(), data: { inputs: item, parameters: {} } } : item;
+      const size = encoder.encode(JSON.stringify(chunk)).byteLength;
+      while (!feed.done && !this.#hasRoomFor(size)) {
+        await Utils.sleep(this.pollInterval, signal);
+        this.#status = (await pipeline.getStatus(this.callOptions)).data;
+      }
+      if (feed.done) return;
+
+      const { ifChunkIdDuplicated } = this.options;
+      const { data } = await pipeline.push({ chunks: [chunk] }, { ifChunkIdDuplicated }, this.callOptions);
+      this.#status = data;
+      feed.pushed++;
+    }
+    await pipeline.close(this.callOptions);
+  }
+
+  /**
+   * Whether the pipeline has no more results to yield once the input is exhausted, even
+   * if fewer chunks came out than went in (e.g., dropped or merged chunks).
+   * @throws {SparkSdkError} if the pipeline failed or got cancelled in the meantime.
+   */
+  #isSettled(pipeline: Pipeline, fed: boolean): boolean {
+    const { batch_status: state, records_available: available = 0 } = this.#status ?? {};
+    const { records_completed: completed = 0, record_submitted: submitted = 0 } = this.#status ?? {};
+    if (this.#hasFailed) {
+      throw SparkError.sdk({ message: `batch pipeline <${pipeline.id}> ${state}`, cause: this.#status });
+    }
+    if (!fed || available > 0) return false;
+    return state === 'completed' || (submitted > 0 && completed >= submitted);
+  }
+
+  get #hasFailed(): boolean {
+    const state = this.#status?.batch_status;
+    return state === 'failed' || state === 'cancelled';
+  }
+
+  // A chunk can be pushed if the input buffer can hold it and the output buffer isn't full,
+  // unless both are empty (e.g., a chunk larger than the input buffer).
+  #hasRoomFor(size: number): boolean {
+    const { input_buffer_used_bytes: usedIn = 0, input_buffer_remaining_bytes: remainingIn = Infinity } =
+      this.#status ?? {};
+    const { output_buffer_used_bytes: usedOut = 0, output_buffer_remaining_bytes: remainingOut = Infinity } =
+      this.#status ?? {};
+    if (usedIn === 0 && usedOut === 0) return true;
+    return remainingIn >= size && remainingOut > 0;
+  }
+}
+
 /**
  * A batch pipeline for asynchronous execution.
  *
@@ -168,26 +558,29 @@ class Pipeline extends ApiResource {
 
   /**
    * Gets batch information.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<BatchInfo>>} the batch info.
    *
    * IMPORTANT: This method is experimental and may change in future releases.
    */
-  getInfo(): Promise<HttpResponse<BatchInfo>> {
-    return this.request(Uri.from(undefined, { ...this.baseUri, endpoint: `batch/${this.id}` }));
+  getInfo(options?: CallOptions): Promise<HttpResponse<BatchInfo>> {
+    return this.request(Uri.from(undefined, { ...this.baseUri, endpoint: `batch/${this.id}` }), {}, options);
   }
 
   /**
    * Gets the status of a batch pipeline.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<BatchStatus>>} the batch status
    */
-  getStatus(): Promise<HttpResponse<BatchStatus>> {
-    return this.request(Uri.from(undefined, { ...this.baseUri, endpoint: `batch/${this.id}/status` }));
+  getStatus(options?: CallOptions): Promise<HttpResponse<BatchStatus>> {
+    return this.request(Uri.from(undefined, { ...this.baseUri, endpoint: `batch/${this.id}/status` }), {}, options);
   }
 
   /**
    * Pushes data to a batch pipeline.
    * @param {PushDataParams<Inputs>} params - the data to push to the batch pipeline.
    * @param {PushDataOptions} options - the options to consider when multiple chunks are provided.
+   * @param {CallOptions} callOptions - per-call request options (headers, timeout, cancellation, etc.)
    * @returns a record submission summary.
    * @throws {SparkError} if the data params are invalid.
    *
@@ -202,27 +595,31 @@ class Pipeline extends ApiResource {
    * - 'replace' (default): replaces the duplicated id with a new one generated by the SDK.
    * - 'throw': throws an error indicating which chunk is duplicated (as part of the `SparkError.cause`).
    */
-  async push<Inputs>(params: PushDataParams<Inputs>, options?: PushDataOptions) {
+  async push<Inputs>(params: PushDataParams<Inputs>, options?: PushDataOptions, callOptions?: CallOptions) {
     this.#assertState(['closed', 'cancelled']);
 
     const url = Uri.from(undefined, { ...this.baseUri, endpoint: `batch/${this.id}/chunks` });
     const body = this.#buildPushBody(params, options);
-    return this.request<RecordSubmitted, Chunks<Inputs>>(url, { method: 'POST', body }).then((response) => {
-      this.logger.log(`pushed ${response.data.record_submitted} records to batch pipeline <${this.id}>`);
-      return response;
-    });
+    return this.request<RecordSubmitted, Chunks<Inputs>>(url, { method: 'POST', body }, callOptions).then(
+      (response) => {
+        this.logger.log(`pushed ${response.data.record_submitted} records to batch pipeline <${this.id}>`);
+        return response;
+      },
+    );
   }
 
   /**
    * Pulls the results from a batch pipeline.
    * @param {number} max - the maximum number of chunks to pull (default: 100)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<BatchResult<Outputs>>} the batch results
    */
-  async pull<Outputs>(max: number = 100): Promise<HttpResponse<BatchResult<Outputs>>> {
+  async pull<Outputs>(max: number = 100, options?: CallOptions): Promise<HttpResponse<BatchResult<Outputs>>> {
     this.#assertState(['cancelled']);
 
     const endpoint = `batch/${this.id}/chunkresults?max_chunks=${max}`;
-    return this.request<BatchResult<Outputs>>(Uri.from(undefined, { ...this.baseUri, endpoint })).then((response) => {
+    const url = Uri.from(undefined, { ...this.baseUri, endpoint });
+    return this.request<BatchResult<Outputs>>(url, {}, options).then((response) => {
       this.logger.log(`${response.data.status.records_available} available records from batch pipeline <${this.id}>`);
       return response;
     });
@@ -235,13 +632,15 @@ class Pipeline extends ApiResource {
    * and you want to close the batch. After closing a batch, batch will still process
    * the data and user will be able to download the remaining output from get chunk
    * results API.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<BatchDisposed>>} the batch status
    */
-  async close(): Promise<HttpResponse<BatchDisposed>> {
+  async close(options?: CallOptions): Promise<HttpResponse<BatchDisposed>> {
     this.#assertState(['closed', 'cancelled']);
 
     const url = Uri.from(undefined, { ...this.baseUri, endpoint: `batch/${this.id}` });
-    return this.request<BatchDisposed>(url, { method: 'PATCH', body: { batch_status: 'closed' } }).then((response) => {
+    const body = { batch_status: 'closed' };
+    return this.request<BatchDisposed>(url, { method: 'PATCH', body }, options).then((response) => {
       this.#state = 'closed';
       this.logger.log(`batch pipeline <${this.id}> has been closed`);
       return response;
@@ -254,19 +653,19 @@ class Pipeline extends ApiResource {
    * Cancelling a batch is helpful when batch is not working as expected or you
    * have made a mistake and you want to immediately stop the batch processing.
    * You won't be able to download anymore data after cancelling a batch.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<BatchDisposed>>} the batch status
    */
-  async cancel(): Promise<HttpResponse<BatchDisposed>> {
+  async cancel(options?: CallOptions): Promise<HttpResponse<BatchDisposed>> {
     this.#assertState(['cancelled', 'closed']);
 
     const url = Uri.from(undefined, { ...this.baseUri, endpoint: `batch/${this.id}` });
-    return this.request<BatchDisposed>(url, { method: 'PATCH', body: { batch_status: 'cancelled' } }).then(
-      (response) => {
-        this.#state = 'cancelled';
-        this.logger.log(`batch pipeline <${this.id}> has been cancelled`);
-        return response;
-      },
-    );
+    const body = { batch_status: 'cancelled' };
+    return this.request<BatchDisposed>(url, { method: 'PATCH', body }, options).then((response) => {
+      this.#state = 'cancelled';
+      this.logger.log(`batch pipeline <${this.id}> has been cancelled`);
+      return response;
+    });
   }
 
   #assertState(states: PipelineState[], throwable = true): boolean {
@@ -359,8 +758,62 @@ interface ExecuteParams<Inputs = any> {
   readonly data?: ExecuteData<Inputs>;
   readonly inputs?: Inputs[];
   readonly raw?: string;
+
+  // Marks the execution as safe to retry upon transient failures (e.g., 502, 503, 504).
+  readonly idempotent?: boolean;
+
+  // Checks every record against the service schema before executing them (defaults to `Config.validateInputs`).
+  readonly validateInputs?: boolean;
 }
 
+interface ExecuteManyParams<Inputs = any> extends Pick<ExecuteParams<Inputs>, 'idempotent' | 'validateInputs'> {
+  // The records to execute, read lazily (e.g., an array, a generator or a stream of records).
+  readonly records: Iterable<Inputs> | AsyncIterable<Inputs>;
+
+  // The metadata shared by all the chunks (e.g., the version ID or the requested outputs).
+  readonly data?: MetadataParams;
+
+  // The maximum number of records per chunk (defaults to 100).
+  readonly chunkSize?: number;
+
+  // The maximum size (in bytes) of the records of a chunk once serialized as JSON (unbounded by default).
+  readonly maxChunkBytes?: number;
+
+  // The maximum number of chunks in flight at once (defaults to 4).
+  readonly concurrency?: number;
+
+  // The maximum number of retries of a chunk failing with a transient error (defaults to `Config.maxRetries`).
+  readonly maxRetries?: number;
+
+  // Whether to yield the records of a chunk that ultimately failed along with their error, instead of throwing it.
+  readonly continueOnError?: boolean;
+}
+
+type RecordExecuted<Inputs = any, Outputs = any> = {
+  index: number;
+  inputs: Inputs;
+  outputs?: Outputs;
+  warnings: ServiceExecuted['warnings'][number];
+  errors: ServiceExecuted['errors'][number];
+  processTime?: number;
+  error?: SparkError;
+};
+
+type ExecutionSummary = {
+  records: number;
+  chunks: number;
+  retries: number;
+  failed: number;
+  warnings: number;
+  errors: number;
+  processTime: number;
+};
+
+type ManyExecuted<Outputs = any> = Pick<ServiceExecuted, 'warnings' | 'errors' | 'process_time'> & {
+  outputs: (Outputs | null)[];
+  failed: number[];
+};
+
 interface ExecuteData<Inputs = any> extends MetadataParams {
   inputs: Inputs[];
 }
@@ -518,6 +971,24 @@ type BatchDisposed = {
   };
 };
 
+interface RunOptions extends PushDataOptions {
+  // How long (in milliseconds) to wait before polling the pipeline again (defaults to 1 second).
+  pollInterval?: number;
+
+  // The maximum number of chunk results to pull at once (defaults to 100).
+  maxChunks?: number;
+}
+
+type ChunkSource<Inputs> = Iterable<Inputs[] | BatchChunk<Inputs>> | AsyncIterable<Inputs[] | BatchChunk<Inputs>>;
+
+type ChunkResult<Outputs = any> = {
+  chunkId: string;
+  outputs: Outputs[];
+  warnings: any[];
+  errors: any[];
+  processTime: number[];
+};
+
 interface PushDataOptions {
   ifChunkIdDuplicated?: IfChunkIdDuplicated;
 }
@@ -1,8 +1,7 @@
-import { type Readable } from 'stream';
-
 import { Serializable } from '../data';
 import { SparkApiError } from '../error';
-import { HttpResponse, Multipart } from '../http';
+import { CallOptions, FileInput, HttpResponse, Multipart } from '../http';
+import { PaginationOptions, Paginator } from '../pagination';
 import { DateUtils, StringUtils } from '../utils';
 import { SPARK_SDK } from '../constants';
 
@@ -11,26 +10,28 @@ import { ApiResource, Uri, ApiResponse } from './base';
 export class Folder extends ApiResource {
   /**
    * Gets the list of folder categories.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<FolderCategories>>}
    */
-  getCategories(): Promise<HttpResponse<FolderCategories>> {
+  getCategories(options?: CallOptions): Promise<HttpResponse<FolderCategories>> {
     const url = Uri.from(undefined, {
       base: this.config.baseUrl.value,
       version: 'api/v1',
       endpoint: 'lookup/getcategories',
     });
-    return this.request(url);
+    return this.request(url, {}, options);
   }
 
   /**
    * Creates a new folder.
    * @param {string | CreateParams} params - Folder name (and additional information)
    * If `params` is a string, it will be used as the folder name.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<FolderCreated>>}
    */
-  async create(params: CreateParams): Promise<HttpResponse<FolderCreated>>;
-  async create(name: string): Promise<HttpResponse<FolderCreated>>;
-  async create(params: string | CreateParams): Promise<HttpResponse<FolderCreated>> {
+  async create(params: CreateParams, options?: CallOptions): Promise<HttpResponse<FolderCreated>>;
+  async create(name: string, options?: CallOptions): Promise<HttpResponse<FolderCreated>>;
+  async create(params: string | CreateParams, options?: CallOptions): Promise<HttpResponse<FolderCreated>> {
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint: 'product/create' });
     const createParams = (StringUtils.isString(params) ? { name: params } : params) as CreateParams;
     const { name, category = 'Other', description, status, cover } = createParams;
@@ -45,11 +46,11 @@ export class Folder extends ApiResource {
       { name: 'Status', data: status ?? 'Design' },
     ];
 
-    const response = await this.request<FolderLocation>(url, { method: 'POST', multiparts });
+    const response = await this.request<FolderLocation>(url, { method: 'POST', multiparts }, options);
     const { data, headers } = response;
     if (data.status === 'Success') {
-      if (cover) await this.uploadCover(data.data.folderId, cover);
-      return this.request<FolderCreated>(data.data.get_product_url);
+      if (cover) await this.uploadCover(data.data.folderId, cover, options);
+      return this.request<FolderCreated>(data.data.get_product_url, {}, options);
     }
 
     const cause = {
@@ -70,16 +71,17 @@ export class Folder extends ApiResource {
    * @param {string | SearchParams} params - Search parameters (name, status, category, favorite)
    * If `params` is a string, it will be used as the name to search for.
    * @param {Paging} paging - Paging options (page, size, sort)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<FolderListed>>}
    *
    * Note: `SearchParams.favorite` requires additional permissions if you're using API keys
    * for authentication.
    */
-  find(params: SearchParams, paging?: Paging): Promise<HttpResponse<FolderListed>>;
+  find(params: SearchParams, paging?: Paging, options?: CallOptions): Promise<HttpResponse<FolderListed>>;
   find(params: SearchParams): Promise<HttpResponse<FolderListed>>;
-  find(name: string, paging?: Paging): Promise<HttpResponse<FolderListed>>;
+  find(name: string, paging?: Paging, options?: CallOptions): Promise<HttpResponse<FolderListed>>;
   find(name: string): Promise<HttpResponse<FolderListed>>;
-  find(params: string | SearchParams, paging: Paging = {}): Promise<HttpResponse<FolderListed>> {
+  find(params: string | SearchParams, paging: Paging = {}, options?: CallOptions): Promise<HttpResponse<FolderListed>> {
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint: 'product/list' });
     const searchParams = (StringUtils.isString(params) ? { name: params } : params) as SearchParams;
     const search = Object.entries(searchParams)
@@ -89,20 +91,45 @@ export class Folder extends ApiResource {
     const { page = 1, size: pageSize = 100, sort = '-updated' } = paging;
     const body = { search, page, pageSize, sort, shouldFetchActiveServicesCount: true };
 
-    return this.request(url, { method: 'POST', body });
+    return this.request(url, { method: 'POST', body }, options);
+  }
+
+  /**
+   * Iterates over all the folders matching the search parameters, fetching them page by page.
+   * @param {string | SearchParams} params - Search parameters (name, status, category, favorite)
+   * @param {PaginationOptions} paging - Pagination options (page size, max items, sort)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Paginator<FolderInfo>} an async iterable of folders
+   *
+   * See {@link Folder.find} for a single page of folders.
+   */
+  findAll(
+    params: string | SearchParams = {},
+    paging?: PaginationOptions,
+    options?: CallOptions,
+  ): Paginator<FolderInfo> {
+    return new Paginator(async ({ page, size, sort }) => {
+      const response = await this.find(params as SearchParams, { page, size, sort }, options);
+      return { items: response.data.data ?? [], total: response.data.count };
+    }, paging);
   }
 
   /**
    * Updates a folder's information.
    * @param {string} id - Folder ID
    * @param {CreateParams} params - Folder information to update
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<FolderUpdated>>}
    */
-  async update(id: string, params: Omit<CreateParams, 'name' | 'status'>): Promise<HttpResponse<FolderUpdated>> {
+  async update(
+    id: string,
+    params: Omit<CreateParams, 'name' | 'status'>,
+    options?: CallOptions,
+  ): Promise<HttpResponse<FolderUpdated>> {
     const endpoint = `product/update/${id?.trim()}`;
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
     const { cover, startDate, launchDate, ...rest } = params;
-    if (cover) await this.uploadCover(id, cover);
+    if (cover) await this.uploadCover(id, cover, options);
 
     const body = {
       ...rest,
@@ -110,32 +137,34 @@ export class Folder extends ApiResource {
       launchDate: DateUtils.isDate(launchDate) ? new Date(launchDate).toISOString() : undefined,
       shouldTrackUserAction: true,
     };
-    return this.request(url, { method: 'POST', body });
+    return this.request(url, { method: 'POST', body }, options);
   }
 
   /**
    * Deletes a folder by ID.
    * @param {string} id - Folder ID
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<FolderDeleted>>} a successful status
    *
    * IMPORTANT:
    * Deleting a folder will also delete all its services. Use this method with
    * caution.
    */
-  delete(id: string): Promise<HttpResponse<FolderDeleted>> {
+  delete(id: string, options?: CallOptions): Promise<HttpResponse<FolderDeleted>> {
     const endpoint = `product/delete/${id?.trim()}`;
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
     this.logger.warn(`deleting folder will also delete all its services.`);
-    return this.request(url, { method: 'DELETE' });
+    return this.request(url, { method: 'DELETE' }, options);
   }
 
   /**
    * Upload cover image to a folder by ID.
    * @param {string} id - Folder ID
    * @param {CoverImage} cover - base64 encoded cover image
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<CoverUploaded>>}
    */
-  uploadCover(id: string, cover: CoverImage): Promise<HttpResponse<CoverUploaded>> {
+  uploadCover(id: string, cover: CoverImage, options?: CallOptions): Promise<HttpResponse<CoverUploaded>> {
     const endpoint = `product/UploadCoverImage`;
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
     const multiparts: Multipart[] = [
@@ -143,7 +172,7 @@ export class Folder extends ApiResource {
       { name: 'coverImage', fileStream: cover.image, fileName: cover.fileName },
     ];
 
-    return this.request(url, { method: 'POST', multiparts });
+    return this.request(url, { method: 'POST', multiparts }, options);
   }
 }
 
@@ -151,11 +180,12 @@ export class File extends ApiResource {
   /**
    * Download a Spark file from a protected URL.
    * @param {string} url - Spark URL.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse>} a binary file stream available
    * for reading via `HttpResponse.buffer`.
    */
-  download(url: string): Promise<HttpResponse> {
-    return this.request(url);
+  download(url: string, options?: CallOptions): Promise<HttpResponse> {
+    return this.request(url, {}, options);
   }
 }
 
@@ -182,7 +212,7 @@ interface CreateParams {
   cover?: CoverImage;
 }
 
-type CoverImage = { image: Readable; fileName?: string };
+type CoverImage = { image: FileInput; fileName?: string };
 
 interface SearchParams {
   id?: string;
@@ -1,7 +1,9 @@
 import { SparkError } from '../error';
-import { HttpResponse, getRetryTimeout } from '../http';
+import { CallOptions, HttpResponse } from '../http';
+import { PaginationOptions, Paginator } from '../pagination';
+import { PollingOptions, pinDeadline } from '../polling';
 import { ApiResource, ApiResponse, Uri, UriParams } from './base';
-import Utils, { DateUtils } from '../utils';
+import { DateUtils, StringUtils } from '../utils';
 
 export class History extends ApiResource {
   get downloads(): LogDownload {
@@ -12,6 +14,7 @@ export class History extends ApiResource {
    * Finds logs by date range, call id, username, call purpose, etc.
    * @param {string | SearchParams} uri - Search parameters
    * @param {Paging} paging - Paging options (page, size, sort)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<LogListed>>}
    *
    * Be mindful of the date range, as it may return a large number of logs. If only
@@ -19,35 +22,57 @@ export class History extends ApiResource {
    * Additionally, the parameters `callId`, `sourceSystem`, and `correlationId` are
    * interchangeable and will be used as a search term if provided.
    */
-  find(uri: string | SearchParams, paging: Paging = {}): Promise<HttpResponse<LogListed>> {
+  find(uri: string | SearchParams, paging: Paging = {}, options?: CallOptions): Promise<HttpResponse<LogListed>> {
     const { folder, service, ...params } = Uri.toParams(uri);
     const endpoint = `product/${folder}/engines/${service}/logs`;
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
     const body = this.#buildSearchBody(params, paging);
 
-    console.log('body', body);
+    return this.request(url, { method: 'POST', body }, options);
+  }
 
-    return this.request(url, { method: 'POST', body });
+  /**
+   * Iterates over all the logs matching the search parameters, fetching them page by page.
+   * @param {string | SearchParams} uri - Search parameters
+   * @param {PaginationOptions} paging - Pagination options (page size, max items, sort)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Paginator<LogInfo>} an async iterable of logs
+   *
+   * See {@link History.find} for a single page of logs and the search caveats.
+   */
+  findAll(uri: string | SearchParams, paging?: PaginationOptions, options?: CallOptions): Paginator<LogInfo> {
+    return new Paginator(async ({ page, size, sort }) => {
+      const response = await this.find(uri, { page, size, sort }, options);
+      return { items: response.data.data ?? [], total: response.data.count };
+    }, paging);
   }
 
   /**
    * Rehydrates the executed model into the original excel file.
    * @param {string} uri - how to locate the service
    * @param {string} callId - callId to rehydrate if not provided in the params.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<LogRehydrated>>} the rehydrated log
    */
-  async rehydrate(uri: string, callId: string): Promise<HttpResponse<LogRehydrated>>;
+  async rehydrate(uri: string, callId: string, options?: CallOptions): Promise<HttpResponse<LogRehydrated>>;
   /**
    * Rehydrates the executed model into the original excel file.
    * @param {RehydrateParams} params - uri, callId and other optional params
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<LogRehydrated>>} the rehydrated log
    *
    * @throws {SparkError} if the callId is missing or the rehydration fails
    * to produce a downloadable Excel file.
    */
-  async rehydrate(params: RehydrateParams): Promise<HttpResponse<LogRehydrated>>;
-  async rehydrate(uri: string | RehydrateParams, callId?: string): Promise<HttpResponse<LogRehydrated>> {
+  async rehydrate(params: RehydrateParams, options?: CallOptions): Promise<HttpResponse<LogRehydrated>>;
+  async rehydrate(
+    uri: string | RehydrateParams,
+    callIdOrOptions?: string | CallOptions,
+    options?: CallOptions,
+  ): Promise<HttpResponse<LogRehydrated>> {
     const { folder, service, ...params } = Uri.toParams(uri);
+    let callId = StringUtils.isString(callIdOrOptions) ? callIdOrOptions : undefined;
+    if (!StringUtils.isString(callIdOrOptions)) options = callIdOrOptions ?? options;
     callId = (callId ?? params?.callId)?.trim();
     if (!callId) {
       const error = SparkError.sdk({ message: 'callId is required', cause: callId });
@@ -56,7 +81,7 @@ export class History extends ApiResource {
     }
 
     const url = Uri.from({ folder, service }, { base: this.config.baseUrl.full, endpoint: `download/${callId}` });
-    const response = await this.request<LogRehydrated>(url);
+    const response = await this.request<LogRehydrated>(url, {}, options);
     const downloadUrl = response.data?.response_data?.download_url;
 
     if (!downloadUrl) {
@@ -65,7 +90,7 @@ export class History extends ApiResource {
       throw error;
     }
 
-    const download = await this.request(downloadUrl);
+    const download = await this.request(downloadUrl, { stream: true }, options);
     return { ...download, data: { ...response.data, status: 'Success' } };
   }
 
@@ -73,24 +98,36 @@ export class History extends ApiResource {
    * Downloads service execution logs as csv or json file.
    * @param {string} uri - how to locate the service
    * @param {'csv' | 'json'} type - optional file format to download
-   * @returns {Promise<HttpResponse<LogStatus>>} the downloaded file
+   * @param {CallOptions} options - per-call request options; the cancellation token also stops the polling.
+   * @returns {Promise<HttpResponse<LogStatus>>} the downloaded file, streamed via `HttpResponse.buffer`
    * @throws {SparkError} if the download job fails to produce a downloadable file.
    */
-  async download(uri: string, type: DownloadFileType): Promise<HttpResponse<LogStatus>>;
+  async download(uri: string, type: DownloadFileType, options?: CallOptions): Promise<HttpResponse<LogStatus>>;
   /**
    * Downloads service execution logs as csv or json file.
    * @param {DownloadParams} params - uri, type and other optional params
-   * @returns {Promise<HttpResponse<LogStatus>>} the downloaded file
+   * @param {CallOptions} options - per-call request options; the cancellation token also stops the polling.
+   * @returns {Promise<HttpResponse<LogStatus>>} the downloaded file, streamed via `HttpResponse.buffer`
    * @throws {SparkError} if the download job fails to produce a downloadable file.
    */
-  async download(params: DownloadParams): Promise<HttpResponse<LogStatus>>;
-  async download(uri: string | DownloadParams, type?: DownloadFileType): Promise<HttpResponse<LogStatus>> {
+  async download(params: DownloadParams, options?: CallOptions): Promise<HttpResponse<LogStatus>>;
+  async download(
+    uri: string | DownloadParams,
+    typeOrOptions?: DownloadFileType | CallOptions,
+    options?: CallOptions,
+  ): Promise<HttpResponse<LogStatus>> {
     const { folder, service, ...params } = Uri.toParams(uri);
-    const { maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params;
-    type = (type ?? params?.type ?? 'json').toLowerCase() as DownloadFileType;
+    const { maxRetries, retryInterval, backoff, onProgress } = params;
+    const deadline = pinDeadline(params.deadline);
+    if (!StringUtils.isString(typeOrOptions)) options = typeOrOptions ?? options;
+    const type = (
+      (StringUtils.isString(typeOrOptions) ? typeOrOptions : undefined) ??
+      params?.type ??
+      'json'
+    ).toLowerCase() as DownloadFileType;
 
     const downloads = this.downloads;
-    const response = await downloads.initiate(uri, type);
+    const response = await downloads.initiate(uri, type, options);
     const jobId = response.data?.response_data?.job_id;
     if (!jobId) {
       const error = new SparkError('failed to produce a download job', response);
@@ -98,7 +135,10 @@ export class History extends ApiResource {
       throw error;
     }
 
-    const job = await downloads.getStatus({ folder, service, jobId, type, maxRetries, retryInterval });
+    const job = await downloads.getStatus(
+      { folder, service, jobId, type, maxRetries, retryInterval, deadline, backoff, onProgress },
+      options,
+    );
     const downloadUrl = job.data.response_data.download_url;
     if (!downloadUrl) {
       const error = new SparkError(`failed to produce a download URL for <${jobId}>`, job);
@@ -106,7 +146,7 @@ export class History extends ApiResource {
       throw error;
     }
 
-    const download = await this.request(downloadUrl);
+    const download = await this.request(downloadUrl, { stream: true }, options);
     return { ...download, status: job.status, data: { ...job.data, status: 'Success' } };
   }
 
@@ -142,10 +182,15 @@ class LogDownload extends ApiResource {
    * Creates a download job for service execution logs.
    * @param {string | CreateJobParams} uri - how to locate the service
    * @param {'csv' | 'json'} type - optional file format to download
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<LogStatus>>} includes the downloaded file and status
    * @throws {SparkError} if the download job fails to produce a downloadable file.
    */
-  async initiate(uri: string | CreateJobParams, type?: DownloadFileType): Promise<HttpResponse<JobCreated>> {
+  async initiate(
+    uri: string | CreateJobParams,
+    type?: DownloadFileType,
+    options?: CallOptions,
+  ): Promise<HttpResponse<JobCreated>> {
     const { folder, service, ...params } = Uri.toParams(uri);
     type = (type ?? params?.type ?? 'json').toLowerCase() as DownloadFileType;
     const url = Uri.from({ folder, service }, { base: this.config.baseUrl.full, endpoint: `log/download${type}` });
@@ -169,7 +214,7 @@ class LogDownload extends ApiResource {
       };
     })(params);
 
-    return this.request<JobCreated>(url, { method: 'POST', body }).then((response) => {
+    return this.request<JobCreated>(url, { method: 'POST', body }, options).then((response) => {
       this.logger.log(`${type} download job created <${response.data.response_data.job_id}>`);
       return response;
     });
@@ -179,35 +224,36 @@ class LogDownload extends ApiResource {
    * Gets the status of a download job for service execution logs.
    * @param {string | GetStatusParams} uri - how to locate the job
    * @param {'csv' | 'json'} type - optional file format to download
+   * @param {CallOptions} options - per-call request options; the cancellation token also stops the polling.
    * @returns {Promise<HttpResponse<LogStatus>>} the download status and URL
    * @throws {SparkError} if the download job status check times out.
    */
-  async getStatus(uri: string, type: DownloadFileType): Promise<HttpResponse<LogStatus>>;
-  async getStatus(params: GetStatusParams): Promise<HttpResponse<LogStatus>>;
-  async getStatus(uri: string | GetStatusParams, type?: DownloadFileType): Promise<HttpResponse<LogStatus>> {
+  async getStatus(uri: string, type: DownloadFileType, options?: CallOptions): Promise<HttpResponse<LogStatus>>;
+  async getStatus(params: GetStatusParams, options?: CallOptions): Promise<HttpResponse<LogStatus>>;
+  async getStatus(
+    uri: string | GetStatusParams,
+    typeOrOptions?: DownloadFileType | CallOptions,
+    options?: CallOptions,
+  ): Promise<HttpResponse<LogStatus>> {
     const { jobId, ...params } = Uri.toParams(uri);
-    const { maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params;
-    type = (type ?? params?.type ?? 'json').toLowerCase() as DownloadFileType;
+    if (!StringUtils.isString(typeOrOptions)) options = typeOrOptions ?? options;
+    const type = (
+      (StringUtils.isString(typeOrOptions) ? typeOrOptions : undefined) ??
+      params?.type ??
+      'json'
+    ).toLowerCase() as DownloadFileType;
     const url = Uri.from(params, { base: this.config.baseUrl.full, endpoint: `log/download${type}/status/${jobId}` });
 
-    let retries = 0;
-    let response = await this.request<LogStatus>(url);
-    do {
-      const { progress } = response.data.response_data;
-      this.logger.log(`waiting for log status job to complete - ${progress || 0}%`);
-
-      if (progress == 100) return response;
-      await Utils.sleep(getRetryTimeout(retries, retryInterval));
-
-      retries++;
-      response = await this.request<LogStatus>(url);
-    } while (response.data.response_data.progress < 100 && retries < maxRetries);
-
-    if (response.data.response_data.progress == 100) return response;
-
-    const error = SparkError.sdk({ message: 'log download job status check timed out', cause: response });
-    this.logger.error(error.message);
-    throw error;
+    return this.poll(
+      {
+        name: `log download job <${jobId}>`,
+        check: () => this.request<LogStatus>(url, {}, options),
+        isDone: ({ data }) => data.response_data.progress == 100,
+        progress: ({ data }) => ({ percent: data.response_data.progress || 0, status: data.status }),
+      },
+      params,
+      options,
+    );
   }
 }
 
@@ -238,21 +284,14 @@ interface CreateJobParams extends Pick<UriParams, 'folder' | 'service' | 'versio
   timezoneOffset?: string;
 }
 
-interface DownloadParams extends CreateJobParams {
-  /** Defaults to `Config.maxRetries` */
-  maxRetries?: number;
-  retryInterval?: number;
-}
+interface DownloadParams extends CreateJobParams, PollingOptions {}
 
-interface GetStatusParams extends Pick<UriParams, 'folder' | 'service'> {
+interface GetStatusParams extends Pick<UriParams, 'folder' | 'service'>, PollingOptions {
   folder: string;
   service: string;
   jobId: string;
   /** Defaults to 'json' */
   type?: DownloadFileType;
-  /** Defaults to `Config.maxRetries` */
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
 interface SearchParams extends Pick<UriParams, 'folder' | 'service'> {
@@ -1,11 +1,10 @@
-import { type Readable } from 'stream';
-
 import Utils, { StringUtils } from '../utils';
 import { Config } from '../config';
 import { Logger } from '../logger';
 import { SparkError } from '../error';
 import { SPARK_SDK } from '../constants';
-import { HttpResponse, Multipart, getRetryTimeout } from '../http';
+import { CallOptions, FileInput, HttpResponse, Multipart } from '../http';
+import { PollingOptions, pinDeadline } from '../polling';
 import { ApiResource, Uri, UriParams } from './base';
 import { UpgradeType, ExportFilters, IfEntityPresent } from './types';
 
@@ -31,46 +30,56 @@ export class ImpEx {
   /**
    * Exports Spark entities such as versions, services, or folders.
    * @param {ExportParams} params - what to export
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse[]>} a list of exported files
    * @throws {SparkError} when the export job fails
    *
    * @transactional
    * This method will initiate an export job, poll its status until it completes,
    * and download the exported files. If you need more control over these steps,
-   * consider using the `exports` resource directly.
+   * consider using the `exports` resource directly. Aborting the cancellation token
+   * of the `options` stops the polling, and the `deadline` (if any) covers the whole
+   * workflow.
    */
-  async export(params: ExportParams): Promise<HttpResponse[]> {
-    const { maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params ?? {};
+  async export(params: ExportParams, options?: CallOptions): Promise<HttpResponse[]> {
+    const { maxRetries, retryInterval, backoff, onProgress } = params ?? {};
+    const deadline = pinDeadline(params?.deadline);
     const exporter = this.exports;
-    const response = await exporter.initiate(params);
+    const response = await exporter.initiate(params, options);
 
-    const status = await exporter.getStatus(response.data.id, { maxRetries, retryInterval });
+    const polling = { maxRetries, retryInterval, deadline, backoff, onProgress };
+    const status = await exporter.getStatus(response.data.id, polling, options);
     if (status.data?.outputs?.files?.length === 0) {
       const error = new SparkError('export job failed to produce any files', status);
       exporter.logger.error(error.message);
       throw error;
     }
 
-    return exporter.download(status.data);
+    return exporter.download(status.data, options);
   }
 
   /**
    * Import Spark entities into the platform.
    * @param {ImportParams} params - what to import
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ImportResult>>} - the import job results
    * @throws {SparkError} when the import job fails
    *
    * @transactional
    * This method will initiate an import job, poll its status until it completes,
    * and return the import results. If you need more control over these steps,
-   * consider using the `imports` resource directly.
+   * consider using the `imports` resource directly. Aborting the cancellation token
+   * of the `options` stops the polling, and the `deadline` (if any) covers the whole
+   * workflow.
    */
-  async import(params: ImportParams): Promise<HttpResponse<ImportResult>> {
-    const { maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params ?? {};
+  async import(params: ImportParams, options?: CallOptions): Promise<HttpResponse<ImportResult>> {
+    const { maxRetries, retryInterval, backoff, onProgress } = params ?? {};
+    const deadline = pinDeadline(params?.deadline);
     const importer = this.imports;
-    const response = await importer.initiate(params);
+    const response = await importer.initiate(params, options);
 
-    const status = await importer.getStatus(response.data.id, { maxRetries, retryInterval });
+    const polling = { maxRetries, retryInterval, deadline, backoff, onProgress };
+    const status = await importer.getStatus(response.data.id, polling, options);
     if (status.data?.errors) {
       const error = new SparkError('import job failed with errors', status);
       importer.logger.error(error.message);
@@ -99,19 +108,25 @@ export class Migration {
   /**
    * Migrates Spark entities from one platform to another (experimental feature).
    * @param {MigrateParams} params - which entities to migrate and where
+   * @param {CallOptions} options - per-call request options applied to both tenants
    * @throws {SparkError} when the migration fails
    *
    * @transactional
    * @see {@link ImpEx.export} and {@link ImpEx.import} for more control over the
    * migration process
    */
-  async migrate(params: MigrateParams) {
-    const importables = await ImpEx.only(this.configs.exports).export(params);
+  async migrate(params: MigrateParams, options?: CallOptions) {
+    params = { ...params, deadline: pinDeadline(params.deadline) };
+    // buffer the exported files as they are imported one at a time (unread streams would time out).
+    const importables = await ImpEx.only(this.configs.exports).export(params, { ...options, stream: false });
     const importer = ImpEx.only(this.configs.imports);
 
     const migration = [];
     for (const importable of importables) {
-      const imported = await importer.import({ ...params, file: importable.buffer, destination: params.destination });
+      const imported = await importer.import(
+        { ...params, file: importable.buffer, destination: params.destination },
+        options,
+      );
       migration.push({ exports: importable, imports: imported });
     }
     return migration;
@@ -129,9 +144,10 @@ class Export extends ApiResource {
   /**
    * Initiates an export job to export Spark entities such as versions, services, or folders.
    * @param {ExportParams} params - what to export
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ExportInit>>} the export job details
    */
-  async initiate(params: ExportParams = {}): Promise<HttpResponse<ExportInit>> {
+  async initiate(params: ExportParams = {}, options?: CallOptions): Promise<HttpResponse<ExportInit>> {
     const url = Uri.from(undefined, { base: this.config.baseUrl.full, version: 'api/v4', endpoint: 'export' });
     const metadata = {
       file_filter: params?.filters?.file ?? 'migrate',
@@ -150,64 +166,67 @@ class Export extends ApiResource {
       throw error;
     }
 
-    return this.request<ExportInit>(url, { method: 'POST', body: { inputs, ...metadata } }).then((response) => {
-      this.logger.log(`export job created <${response.data.id}>`);
-      return response;
-    });
+    return this.request<ExportInit>(url, { method: 'POST', body: { inputs, ...metadata } }, options).then(
+      (response) => {
+        this.logger.log(`export job created <${response.data.id}>`);
+        return response;
+      },
+    );
   }
 
   /**
    * Checks the status of an export job.
    * @param {string} jobId - the export job ID
    * @param {StatusParams} params - optional parameters
+   * @param {CallOptions} options - per-call request options; the cancellation token also stops the polling.
    * @returns {Promise<HttpResponse<ExportResult>>} the export job results when completed
    */
-  async getStatus(jobId: string, params: StatusParams = {}): Promise<HttpResponse<ExportResult>> {
-    const { maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params;
+  async getStatus(
+    jobId: string,
+    params: StatusParams = {},
+    options?: CallOptions,
+  ): Promise<HttpResponse<ExportResult>> {
     const url = Uri.from(undefined, {
       base: this.config.baseUrl.full,
       version: 'api/v4',
       endpoint: `export/${jobId}/status`,
     });
 
-    let retries = 0;
-    while (retries < maxRetries) {
-      const response = await this.request<ExportResult>(params.url ?? url);
-      if (response.data?.status === 'closed' || response.data?.status === 'completed') {
-        this.logger.log(`export job <${jobId}> completed`);
-        return response;
-      }
-
-      retries++;
-      this.logger.log(`waiting for export job to complete (attempt ${retries} of ${maxRetries})`);
-      await Utils.sleep(getRetryTimeout(retries, retryInterval));
-    }
-
-    const error = SparkError.sdk(`export job status timed out after ${retries} retries`);
-    this.logger.error(error.message);
-    throw error;
+    return this.poll(
+      {
+        name: `export job <${jobId}>`,
+        check: () => this.request<ExportResult>(params.url ?? url, {}, options),
+        isDone: ({ data }) => data?.status === 'closed' || data?.status === 'completed',
+        progress: ({ data }) => ({ status: data?.status }),
+      },
+      params,
+      options,
+    );
   }
 
   /**
    * Downloads the exported files from an export job.
    * @param {string | ExportResult} exported - the export job ID or results
-   * @returns {Promise<HttpResponse[]>} a list of exported files
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse[]>} a list of exported files, whose `buffer` streams the
+   * response body and should be consumed (e.g., piped to disk) before it times out.
    */
-  async download(exported: string): Promise<HttpResponse[]>;
-  async download(exported: ExportResult): Promise<HttpResponse[]>;
-  async download(exported: string | ExportResult): Promise<HttpResponse[]> {
+  async download(exported: string, options?: CallOptions): Promise<HttpResponse[]>;
+  async download(exported: ExportResult, options?: CallOptions): Promise<HttpResponse[]>;
+  async download(exported: string | ExportResult, options?: CallOptions): Promise<HttpResponse[]> {
     const downloads: HttpResponse[] = [];
 
     if (StringUtils.isString(exported)) {
-      downloads.push(await this.request(exported));
+      downloads.push(await this.request(exported, { stream: true }, options));
       return downloads;
     }
 
     for (const file of exported.outputs.files) {
       if (!file.file) continue;
       try {
-        downloads.push(await this.request(file.file));
+        downloads.push(await this.request(file.file, { stream: true }, options));
       } catch (cause) {
+        if ((cause as Error)?.name === 'AbortError') throw cause;
         this.logger.warn(`failed to download file <${file.file}>`, cause);
       }
     }
@@ -227,9 +246,10 @@ class Import extends ApiResource {
   /**
    * Initiates an import job to import Spark entities into the platform.
    * @param {ImportParams} params - what to import
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ImportInit>>} the import job details
    */
-  async initiate(params: ImportParams): Promise<HttpResponse<ImportInit>> {
+  async initiate(params: ImportParams, options?: CallOptions): Promise<HttpResponse<ImportInit>> {
     const url = Uri.from(undefined, { base: this.config.baseUrl.full, version: 'api/v4', endpoint: 'import' });
     const metadata = {
       inputs: { services_modify: buildServiceMappings(params.destination) },
@@ -242,7 +262,7 @@ class Import extends ApiResource {
       { name: 'file', fileStream: params.file, fileName: 'package.zip', contentType: 'application/zip' },
     ];
 
-    return this.request<ImportInit>(url, { method: 'POST', multiparts }).then((response) => {
+    return this.request<ImportInit>(url, { method: 'POST', multiparts }, options).then((response) => {
       this.logger.log(`import job created <${response.data.id}>`);
       return response;
     });
@@ -252,32 +272,30 @@ class Import extends ApiResource {
    * Checks the status of an import job.
    * @param {string} jobId - the import job ID
    * @param {StatusParams} params - optional parameters
+   * @param {CallOptions} options - per-call request options; the cancellation token also stops the polling.
    * @returns {Promise<HttpResponse<ImportResult>>} the import job results when completed
    */
-  async getStatus(jobId: string, params: StatusParams = {}): Promise<HttpResponse<ImportResult>> {
-    const { maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params;
+  async getStatus(
+    jobId: string,
+    params: StatusParams = {},
+    options?: CallOptions,
+  ): Promise<HttpResponse<ImportResult>> {
     const url = Uri.from(undefined, {
       base: this.config.baseUrl.full,
       version: 'api/v4',
       endpoint: `import/${jobId}/status`,
     });
 
-    let retries = 0;
-    while (retries < maxRetries) {
-      const response = await this.request<ImportResult>(params.url ?? url);
-      if (response.data?.status === 'closed' || response.data?.status === 'completed') {
-        this.logger.log(`import job <${jobId}> completed`);
-        return response;
-      }
-
-      retries++;
-      this.logger.log(`waiting for import job to complete (attempt ${retries} of ${maxRetries})`);
-      await Utils.sleep(getRetryTimeout(retries, retryInterval));
-    }
-
-    const error = SparkError.sdk(`import job status timed out after ${retries} retries`);
-    this.logger.error(error.message);
-    throw error;
+    return this.poll(
+      {
+        name: `import job <${jobId}>`,
+        check: () => this.request<ImportResult>(params.url ?? url, {}, options),
+        isDone: ({ data }) => data?.status === 'closed' || data?.status === 'completed',
+        progress: ({ data }) => ({ status: data?.status }),
+      },
+      params,
+      options,
+    );
   }
 }
 
@@ -285,20 +303,21 @@ export class Wasm extends ApiResource {
   /**
    * Downloads a service's WebAssembly module.
    * @param {string | UriParams} uri - where the service is located
-   * @returns {Promise<HttpResponse>} a buffer of the WASM module as a zip file
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse>} a stream of the WASM module as a zip file
    *
    * NOTE: As of now, only `serviceUri` made out of versionId downloads a wasm
    * successfully. This issue is being tracked in the platform and will be fixed soon.
    */
-  download(uri: string): Promise<HttpResponse>;
-  download(params: Omit<UriParams, 'proxy' | 'version'>): Promise<HttpResponse>;
-  download(uri: string | Omit<UriParams, 'proxy' | 'version'>): Promise<HttpResponse> {
+  download(uri: string, options?: CallOptions): Promise<HttpResponse>;
+  download(params: Omit<UriParams, 'proxy' | 'version'>, options?: CallOptions): Promise<HttpResponse>;
+  download(uri: string | Omit<UriParams, 'proxy' | 'version'>, options?: CallOptions): Promise<HttpResponse> {
     const { folder, service, public: isPublic, serviceId, versionId } = Uri.toParams(uri);
     const serviceUri = Uri.encode({ folder, service, serviceId, versionId });
     const endpoint = `getnodegenzipbyId/${serviceUri}`;
     const url = Uri.partial(`nodegen${isPublic ? '/public' : ''}`, { base: this.config.baseUrl.full, endpoint });
 
-    return this.request(url);
+    return this.request(url, { stream: true }, options);
   }
 }
 
@@ -336,21 +355,17 @@ interface ServiceMapping {
   upgrade?: UpgradeType;
 }
 
-interface StatusParams {
+interface StatusParams extends PollingOptions {
   url?: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
-interface ExportParams {
+interface ExportParams extends PollingOptions {
   folders?: string[];
   services?: string[];
   versionIds?: string[];
   filters?: ExportFilters;
   sourceSystem?: string;
   correlationId?: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
 type ExportBody = {
@@ -398,14 +413,12 @@ export interface ExportResult {
   };
 }
 
-interface ImportParams {
-  file: Readable;
+interface ImportParams extends PollingOptions {
+  file: FileInput;
   destination: ImportDestination;
   ifPresent?: IfEntityPresent;
   sourceSystem?: string;
   correlationId?: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
 type ImportBody = {
@@ -467,7 +480,7 @@ export interface ImportResult {
   };
 }
 
-interface MigrateParams {
+interface MigrateParams extends PollingOptions {
   folders?: string[];
   services?: string[];
   versionIds?: string[];
@@ -476,6 +489,4 @@ interface MigrateParams {
   destination: ImportDestination;
   sourceSystem?: string;
   correlationId?: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
@@ -1,22 +1,35 @@
-import { AccessToken } from '../auth';
+import { AccessToken, TokenGrant } from '../auth';
 import { ApiResource, Uri } from './base';
 
 export class OAuth2 extends ApiResource {
-  async requestAccessToken(): Promise<AccessToken> {
-    const baseUrl = this.config.baseUrl.oauth2;
-    const url = Uri.from(undefined, { base: baseUrl, version: 'protocol', endpoint: 'openid-connect/token' });
+  /**
+   * Requests an access token from Keycloak.
+   * @param {TokenGrant} grant - the grant parameters (defaults to the configured flow's)
+   */
+  async requestAccessToken(grant?: TokenGrant): Promise<AccessToken> {
+    const url = Uri.from(undefined, {
+      base: this.config.baseUrl.oauth2,
+      version: 'protocol',
+      endpoint: 'openid-connect/token',
+    });
     const { clientId: client_id, clientSecret: client_secret } = this.config.auth.oauth?.toJson() ?? {};
-    const body = { grant_type: this.config.auth.oauth?.flow, client_id, client_secret };
+    const body = {
+      client_id,
+      ...(client_secret ? { client_secret } : {}),
+      ...(grant ?? { grant_type: this.config.auth.oauth?.flow }),
+    };
 
     return this.request<AccessTokenModel>(url, {
       method: 'POST',
       contentType: 'application/x-www-form-urlencoded',
+      anonymous: true,
       body,
     }).then((response) => {
       const { data } = response;
       return {
         accessToken: data?.access_token,
         expiresIn: data?.expires_in,
+        refreshToken: data?.refresh_token,
         refreshExpiresIn: data?.refresh_expires_in,
         tokenType: data?.token_type,
         notBeforePolicy: data?.not_before_policy,
@@ -24,11 +37,21 @@ export class OAuth2 extends ApiResource {
       };
     });
   }
+
+  /**
+   * Builds the Keycloak URL where users sign in (authorization code flow).
+   * @param {Record<string, string>} params - the query parameters (e.g., `client_id`, `redirect_uri`, etc.)
+   */
+  getAuthorizationUrl(params: Record<string, string>): string {
+    const base = this.config.baseUrl.oauth2;
+    return Uri.from(undefined, { base, version: 'protocol', endpoint: 'openid-connect/auth' }).concat(params);
+  }
 }
 
 interface AccessTokenModel {
   readonly access_token: string;
   readonly expires_in: number;
+  readonly refresh_token?: string;
   readonly refresh_expires_in: number;
   readonly token_type: string;
   readonly not_before_policy: number;
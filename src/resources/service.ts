@@ -1,13 +1,16 @@
 import { Serializable } from '../data';
-import { SparkError } from '../error';
+import { SparkError, SparkApiError } from '../error';
 import { SPARK_SDK } from '../constants';
-import { HttpResponse, Multipart, getRetryTimeout } from '../http';
+import { CallOptions, HttpResponse, Multipart } from '../http';
+import { PaginationOptions, Paginator } from '../pagination';
+import { pinDeadline } from '../polling';
 import Utils, { StringUtils, DateUtils } from '../utils';
 
 import { History } from './history';
 import { Batch } from './batch';
 import { ImpEx, ImportResult } from './impex';
 import { ApiResource, ApiResponse, Uri, UriParams } from './base';
+import { SearchParams, Paging, GetParams, DeleteParams, VersionParams, UpdateVersionParams } from './types';
 import { GetSwaggerParams, GetVersionsParams, GetSchemaParams, GetMetadataParams } from './types';
 import { CreateParams, CompileParams, PublishParams, GetStatusParams, DownloadParams, RecompileParams } from './types';
 import { ExportParams, ImportParams, MigrateParams } from './types';
@@ -25,20 +28,28 @@ export class Service extends ApiResource {
     return new History(this.config);
   }
 
+  get versions() {
+    return new Versions(this.config);
+  }
+
   /**
    * Creates a new service by uploading a file and publishing it.
    * @param {CreateParams} params - the service creation parameters
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns a summary of the upload, compilation, and publication process
    * @throws {SparkError} if the service creation fails
    *
    * @transactional
    * See {@link Service.compile} and {@link Service.publish} for individual steps.
+   * The compilation polling honors the `deadline`, `backoff` and `onProgress` params
+   * as well as the cancellation token of the `options`.
    */
-  async create(params: CreateParams) {
-    const { upload, compilation } = await this.compile(params);
+  async create(params: CreateParams, options?: CallOptions) {
+    params = { ...params, deadline: pinDeadline(params.deadline) };
+    const { upload, compilation } = await this.compile(params, options);
     const { engine_file_documentid: engineId, original_file_documentid: fileId } = upload.response_data;
 
-    return this.publish({ fileId, engineId, ...params }).then((response) => {
+    return this.publish({ fileId, engineId, ...params }, options).then((response) => {
       return { upload, compilation, publication: response.data };
     });
   }
@@ -46,27 +57,30 @@ export class Service extends ApiResource {
   /**
    * Compiles a service after uploading it.
    * @param {CreateParams} params - the service creation parameters
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns a summary of the upload, compilation, and publication process
    *
    * @transactional
    * See {@link Compilation.initiate} and {@link Compilation.getStatus} for individual
    * steps.
    */
-  async compile(params: CompileParams) {
+  async compile(params: CreateParams, options?: CallOptions) {
+    params = { ...params, deadline: pinDeadline(params.deadline) };
     const compilation = this.compilation;
-    const upload = await compilation.initiate(params);
+    const upload = await compilation.initiate(params, options);
     const { nodegen_compilation_jobid: jobId } = upload.data.response_data;
 
-    const status = await compilation.getStatus({ jobId, ...params });
+    const status = await compilation.getStatus({ jobId, ...params }, options);
     return { upload: upload.data, compilation: status.data };
   }
 
   /**
    * Publishes a service after uploading and compiling it.
    * @param {PublishParams} params - the publication parameters
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServicePublished>>} the publication response
    */
-  async publish(params: PublishParams): Promise<HttpResponse<ServicePublished>> {
+  async publish(params: PublishParams, options?: CallOptions): Promise<HttpResponse<ServicePublished>> {
     const { folder, service } = params;
     const [startDate, endDate] = DateUtils.parse(params.startDate, params.endDate);
     const url = Uri.from({ folder, service }, { base: this.config.baseUrl.full, endpoint: 'publish' });
@@ -82,7 +96,7 @@ export class Service extends ApiResource {
       },
     };
 
-    return this.request<ServicePublished>(url, { method: 'POST', body }).then((response) => {
+    return this.request<ServicePublished>(url, { method: 'POST', body }, options).then((response) => {
       this.logger.log(`service published with version id <${response.data.response_data.version_id}>`);
       return response;
     });
@@ -112,6 +126,7 @@ export class Service extends ApiResource {
    * Executes a service with the given inputs.
    * @param {string} uri - where the service is located
    * @param {ExecuteParams<Inputs>} params - the execution parameters (inputs, metadata, etc.)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServiceExecuted<Outputs>>>} the service execution response
    *
    * The inputs can be provided the following ways:
@@ -119,123 +134,259 @@ export class Service extends ApiResource {
    * - `params.data` - the full metadata and input data to use for the calculation.
    * - `params.raw` - a JSON string to parse as the full metadata and input data.
    */
-  execute<Inputs, Outputs>(uri: string, params: ExecuteParams<Inputs>): Promise<HttpResponse<ServiceExecuted<Outputs>>>;
+  execute<Inputs, Outputs>(
+    uri: string,
+    params: ExecuteParams<Inputs>,
+    options?: CallOptions,
+  ): Promise<HttpResponse<ServiceExecuted<Outputs>>>;
   /**
    * Executes a service with the given inputs.
    * @param {UriParams} uri - use fine-grained details to locate the service
    * @param {ExecuteParams<Inputs>} params - the execution parameters (inputs, metadata, etc.)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServiceExecuted<Outputs>>>} the service execution response
    */
-  execute<Input, Output>(uri: UriParams, params: ExecuteParams<Input>): Promise<HttpResponse<ServiceExecuted<Output>>>;
-  execute<Inputs, Outputs>(uri: string | UriParams, params?: ExecuteParams<Inputs>) {
+  execute<Input, Output>(
+    uri: UriParams,
+    params: ExecuteParams<Input>,
+    options?: CallOptions,
+  ): Promise<HttpResponse<ServiceExecuted<Output>>>;
+  execute<Inputs, Outputs>(uri: string | UriParams, params?: ExecuteParams<Inputs>, options?: CallOptions) {
     uri = Uri.toParams(uri);
     const url = Uri.from(uri, { base: this.config.baseUrl.full, endpoint: 'execute' });
     const body = this.#buildExecuteBody(uri, params);
-
-    return this.request<ServiceExecuted<Outputs>>(url, { method: 'POST', body });
+    const execute = () =>
+      this.#memoize(body, params?.memoize, () =>
+        this.request<ServiceExecuted<Outputs>>(
+          url,
+          { method: 'POST', body, idempotent: params?.idempotent, cacheAs: 'execute' },
+          options,
+        ),
+      );
+
+    if (!(params?.validateInputs ?? this.config.validateInputs)) return execute();
+    const { version, version_id: versionId, transaction_date: activeSince } = body.request_meta;
+    const pinned = { version, versionId, activeSince };
+    return this.validateInputs({ ...uri, ...pinned }, body.request_data.inputs, options).then(execute);
   }
 
   /**
    * Validates the inputs for a service.
    * @param {string | UriParams} uri - where the service is located
    * @param {ExecuteParams<Inputs>} params - optionally the validation parameters (inputs, metadata, etc.)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServiceExecuted<Outputs>>>} the validation response
    * @throws {SparkError} if the validation fails
    */
   validate<Inputs, Outputs>(
     uri: string,
     params?: ExecuteParams<Inputs>,
+    options?: CallOptions,
   ): Promise<HttpResponse<ServiceExecuted<Outputs>>>;
   validate<Inputs, Outputs>(
     uri: UriParams,
     params?: ExecuteParams<Inputs>,
+    options?: CallOptions,
   ): Promise<HttpResponse<ServiceExecuted<Outputs>>>;
-  validate<Inputs, Outputs>(uri: string | UriParams, params?: ExecuteParams<Inputs>) {
+  validate<Inputs, Outputs>(uri: string | UriParams, params?: ExecuteParams<Inputs>, options?: CallOptions) {
     uri = Uri.toParams(uri);
     const url = Uri.from(uri, { base: this.config.baseUrl.full, endpoint: 'validation' });
     const body = this.#buildExecuteBody(uri, params);
 
-    return this.request<ServiceExecuted<Outputs>>(url, { method: 'POST', body });
+    return this.request<ServiceExecuted<Outputs>>(
+      url,
+      { method: 'POST', body, idempotent: params?.idempotent },
+      options,
+    );
+  }
+
+  /**
+   * Finds the services of a folder, optionally by name or tags.
+   * @param {string | SearchParams} params - the folder name or search parameters (folder, name, tags)
+   * @param {Paging} paging - Paging options (page, size, sort)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse<ServiceListed>>} a page of services
+   */
+  find(folder: string, paging?: Paging, options?: CallOptions): Promise<HttpResponse<ServiceListed>>;
+  find(params: SearchParams, paging?: Paging, options?: CallOptions): Promise<HttpResponse<ServiceListed>>;
+  find(
+    params: string | SearchParams,
+    paging: Paging = {},
+    options?: CallOptions,
+  ): Promise<HttpResponse<ServiceListed>> {
+    const { folder, name, tags } = StringUtils.isString(params) ? ({ folder: params } as SearchParams) : params;
+    const endpoint = `product/${folder}/engines`;
+    const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
+
+    const search = [];
+    if (name) search.push({ field: 'name', value: name });
+    if (tags) search.push({ field: 'tags', value: Array.isArray(tags) ? tags.join(',') : tags });
+
+    const { page = 1, size: pageSize = 100, sort = '-updated' } = paging;
+    return this.request(url, { method: 'POST', body: { search, page, pageSize, sort } }, options);
+  }
+
+  /**
+   * Iterates over all the services of a folder, fetching them page by page.
+   * @param {string | SearchParams} params - the folder name or search parameters (folder, name, tags)
+   * @param {PaginationOptions} paging - Pagination options (page size, max items, sort)
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Paginator<ServiceInfo>} an async iterable of services
+   */
+  findAll(params: string | SearchParams, paging?: PaginationOptions, options?: CallOptions): Paginator<ServiceInfo> {
+    return new Paginator(async ({ page, size, sort }) => {
+      const response = await this.find(params as SearchParams, { page, size, sort }, options);
+      return { items: response.data.data ?? [], total: response.data.count };
+    }, paging);
+  }
+
+  /**
+   * Gets the details of a service (e.g., its active version and number of versions).
+   * @param {string | GetParams} uri - how to locate the service
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse<ServiceFound>>} the service details
+   *
+   * @throws {SparkApiError} if the folder has no such service.
+   */
+  get(uri: string, options?: CallOptions): Promise<HttpResponse<ServiceFound>>;
+  get(params: GetParams, options?: CallOptions): Promise<HttpResponse<ServiceFound>>;
+  async get(uri: string | GetParams, options?: CallOptions): Promise<HttpResponse<ServiceFound>> {
+    const { folder, service } = Uri.toParams(uri) as Required<GetParams>;
+
+    // the name search matches partially: page through the matches until the exact one.
+    let response!: HttpResponse<ServiceListed>;
+    const matches = new Paginator(async ({ page, size }) => {
+      response = await this.find({ folder, name: service }, { page, size }, options);
+      return { items: response.data.data ?? [], total: response.data.count };
+    });
+    for await (const info of matches) {
+      if (info.serviceName === service) return { ...response, data: { ...response.data, data: info } };
+    }
+
+    const url = Uri.from(undefined, {
+      base: this.config.baseUrl.value,
+      version: 'api/v1',
+      endpoint: `product/${folder}/engines`,
+    });
+    const cause = {
+      request: {
+        url: url.value,
+        method: 'POST',
+        headers: this.defaultHeaders,
+        body: { search: [{ field: 'name', value: service }] },
+      },
+      response: { headers: response.headers, body: response.data, raw: Serializable.serialize(response.data) },
+    };
+    const error = SparkApiError.when(404, { message: `service <${folder}/${service}> not found`, cause });
+    this.logger.error(error.message);
+    throw error;
+  }
+
+  /**
+   * Deletes a service.
+   * @param {string | DeleteParams} uri - how to locate the service
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse<ServiceDeleted>>} a successful status
+   *
+   * IMPORTANT:
+   * Deleting a service will also delete all its versions. Use this method with
+   * caution, or {@link Versions.delete} to delete a specific version instead.
+   */
+  delete(uri: string, options?: CallOptions): Promise<HttpResponse<ServiceDeleted>>;
+  delete(params: DeleteParams, options?: CallOptions): Promise<HttpResponse<ServiceDeleted>>;
+  delete(uri: string | DeleteParams, options?: CallOptions): Promise<HttpResponse<ServiceDeleted>> {
+    const { folder, service } = Uri.toParams(uri);
+    const endpoint = `product/${folder}/engines/delete/${service}`;
+    const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
+    this.logger.warn(`deleting service will also delete all its versions.`);
+    return this.request(url, { method: 'DELETE' }, options);
   }
 
   /**
    * Gets the schema for a service.
    * @param {string | GetSchemaParams} uri - how to locate the service
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse>} the service schema
    */
-  getSchema(uri: string): Promise<HttpResponse>;
-  getSchema(params: GetSchemaParams): Promise<HttpResponse>;
-  getSchema(uri: string | GetSchemaParams): Promise<HttpResponse> {
+  getSchema(uri: string, options?: CallOptions): Promise<HttpResponse>;
+  getSchema(params: GetSchemaParams, options?: CallOptions): Promise<HttpResponse>;
+  getSchema(uri: string | GetSchemaParams, options?: CallOptions): Promise<HttpResponse> {
     const { folder, service } = Uri.toParams(uri);
     const endpoint = `product/${folder}/engines/get/${service}`;
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
 
-    return this.request(url);
+    return this.request(url, { cacheAs: 'schema' }, options);
   }
 
   /**
    * Gets the metadata of a Spark service.
    * @param {string | GetMetadataParams} uri - how to locate the service
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<MetadataFound>>} the service metadata.
    */
-  getMetadata(uri: string): Promise<HttpResponse<MetadataFound>>;
-  getMetadata(params: GetMetadataParams): Promise<HttpResponse<MetadataFound>>;
-  getMetadata(uri: string | GetMetadataParams): Promise<HttpResponse<MetadataFound>> {
+  getMetadata(uri: string, options?: CallOptions): Promise<HttpResponse<MetadataFound>>;
+  getMetadata(params: GetMetadataParams, options?: CallOptions): Promise<HttpResponse<MetadataFound>>;
+  getMetadata(uri: string | GetMetadataParams, options?: CallOptions): Promise<HttpResponse<MetadataFound>> {
     const url = Uri.from(Uri.toParams(uri), { base: this.config.baseUrl.full, endpoint: 'metadata' });
 
-    return this.request(url);
+    return this.request(url, { cacheAs: 'metadata' }, options);
   }
 
   /**
    * Gets the list of versions of a Spark service.
    * @param {string | GetVersionsParams} uri - how to locate the service
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<VersionListed>>} the list of versions
    */
-  getVersions(uri: string): Promise<HttpResponse<VersionListed>>;
-  getVersions(params: GetVersionsParams): Promise<HttpResponse<VersionListed>>;
-  getVersions(uri: string | GetVersionsParams): Promise<HttpResponse<VersionListed>> {
+  getVersions(uri: string, options?: CallOptions): Promise<HttpResponse<VersionListed>>;
+  getVersions(params: GetVersionsParams, options?: CallOptions): Promise<HttpResponse<VersionListed>>;
+  getVersions(uri: string | GetVersionsParams, options?: CallOptions): Promise<HttpResponse<VersionListed>> {
     const { folder, service } = Uri.toParams(uri);
     const endpoint = `product/${folder}/engines/getversions/${service}`;
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
 
-    return this.request(url);
+    return this.request(url, { cacheAs: 'versions' }, options);
   }
 
   /**
    * Gets the Swagger documentation of a Spark service.
    * @param {string | GetSwaggerParams} uri - how to locate the service
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse>} the Swagger documentation as binary data
    * via the `HttpResponse.buffer` property.
    */
-  getSwagger(uri: string): Promise<HttpResponse>;
-  getSwagger(params: GetSwaggerParams): Promise<HttpResponse>;
-  getSwagger(uri: string | GetSwaggerParams): Promise<HttpResponse> {
+  getSwagger(uri: string, options?: CallOptions): Promise<HttpResponse>;
+  getSwagger(params: GetSwaggerParams, options?: CallOptions): Promise<HttpResponse>;
+  getSwagger(uri: string | GetSwaggerParams, options?: CallOptions): Promise<HttpResponse> {
     const { folder, service, versionId = '', downloadable = false, subservice = 'All' } = Uri.toParams(uri);
     const endpoint = `downloadswagger/${subservice}/${downloadable}/${versionId}`;
     const url = Uri.from({ folder, service }, { base: this.config.baseUrl.full, endpoint });
 
-    return this.request(url);
+    return this.request(url, { cacheAs: 'swagger' }, options);
   }
 
   /**
    * Downloads the original (Excel) or configured file.
    * @param {string | DownloadParams} uri - how to locate the service
-   * @returns {Promise<HttpResponse>} the file as binary data via the `HttpResponse.buffer` property.
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse>} the file as binary data via the `HttpResponse.buffer` property,
+   * which streams the response body (e.g., to pipe it straight to disk).
    */
-  download(uri: string): Promise<HttpResponse>;
-  download(params: DownloadParams): Promise<HttpResponse>;
-  download(uri: string | DownloadParams): Promise<HttpResponse> {
+  download(uri: string, options?: CallOptions): Promise<HttpResponse>;
+  download(params: DownloadParams, options?: CallOptions): Promise<HttpResponse>;
+  download(uri: string | DownloadParams, options?: CallOptions): Promise<HttpResponse> {
     const { folder, service, version = '', fileName: filename = '', type = 'original' } = Uri.toParams(uri);
     const endpoint = `product/${folder}/engines/${service}/download/${version}`;
     const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
     const params = { filename, type: type === 'configured' ? 'withmetadata' : '' };
 
-    return this.request(url, { params });
+    return this.request(url, { params, stream: true }, options);
   }
 
   /**
    * Recompiles a service using a specific compiler version.
    * @param {string | RecompileParams} uri - how to locate the service
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServiceRecompiled>>} the recompilation status.
    *
    * Unlike {@link Service.compile}, this method does not upload a new service file.
@@ -243,9 +394,9 @@ export class Service extends ApiResource {
    * may want to check the {@link Compilation.getStatus} method to monitor the
    * recompilation job before subsequent actions.
    */
-  recompile(uri: string): Promise<HttpResponse<ServiceRecompiled>>;
-  recompile(params: RecompileParams): Promise<HttpResponse<ServiceRecompiled>>;
-  recompile(uri: string | RecompileParams): Promise<HttpResponse<ServiceRecompiled>> {
+  recompile(uri: string, options?: CallOptions): Promise<HttpResponse<ServiceRecompiled>>;
+  recompile(params: RecompileParams, options?: CallOptions): Promise<HttpResponse<ServiceRecompiled>>;
+  recompile(uri: string | RecompileParams, options?: CallOptions): Promise<HttpResponse<ServiceRecompiled>> {
     const { folder, service, versionId, releaseNotes, ...params } = Uri.toParams(uri);
     const url = Uri.from({ folder, service }, { base: this.config.baseUrl.full, endpoint: 'recompileNodgen' });
     const [startDate, endDate] = DateUtils.parse(params.startDate, params.endDate);
@@ -260,60 +411,107 @@ export class Service extends ApiResource {
       effectiveEndDate: endDate.toISOString(),
     };
 
-    return this.request(url, { method: 'POST', body: { request_data: data } });
+    return this.request(url, { method: 'POST', body: { request_data: data } }, options);
   }
 
   /**
    * Exports a Spark service as a zip file.
    * @param {string | ExportParams} uri - service to export
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse[]>} a list of exported files
    * @throws {SparkError} when the export job fails
    *
    * @transactional
    */
-  async export(uri: string): Promise<HttpResponse[]>;
-  async export(params: ExportParams): Promise<HttpResponse[]>;
-  async export(uri: string | ExportParams): Promise<HttpResponse[]> {
+  async export(uri: string, options?: CallOptions): Promise<HttpResponse[]>;
+  async export(params: ExportParams, options?: CallOptions): Promise<HttpResponse[]>;
+  async export(uri: string | ExportParams, options?: CallOptions): Promise<HttpResponse[]> {
     const { folder, service, version, versionId, ...params } = Uri.toParams(uri);
     const serviceUri = params.serviceUri ?? Uri.encode({ folder, service, version }, false);
 
-    return ImpEx.only(this.config).export({
-      services: serviceUri ? [serviceUri] : [],
-      versionIds: versionId ? [versionId] : [],
-      ...params,
-    });
+    return ImpEx.only(this.config).export(
+      {
+        services: serviceUri ? [serviceUri] : [],
+        versionIds: versionId ? [versionId] : [],
+        ...params,
+      },
+      options,
+    );
   }
 
   /**
    * Imports a Spark service from a zip file.
    * @param {ImportParams} params - the import parameters
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ImportResult>>} the import results
    * @throws {SparkError} when the import job fails
    * @transactional
    */
-  async import(params: ImportParams): Promise<HttpResponse<ImportResult>> {
-    return ImpEx.only(params.config ?? this.config).import(params);
+  async import(params: ImportParams, options?: CallOptions): Promise<HttpResponse<ImportResult>> {
+    return ImpEx.only(params.config ?? this.config).import(params, options);
   }
 
   /**
    * Migrates a Spark service from one workspace to another.
    * @param {MigrateParams} params - the migration parameters
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns the migration results
    *
    * @transactional
    * Currently in Beta, please use experimentally.
    */
-  async migrate(params: MigrateParams) {
-    const exported = await this.export(params);
+  async migrate(params: MigrateParams, options?: CallOptions) {
+    params = { ...params, deadline: pinDeadline(params.deadline) };
+    // buffer the exported files since only the first one gets imported (unread streams would time out).
+    const exported = await this.export(params, { ...options, stream: false });
     if (exported.length === 0) {
       this.logger.warn('no service entities to migrate');
       return { exports: exported, imports: null };
     }
 
-    const imported = await this.import({ ...params, file: exported[0].buffer });
+    const imported = await this.import({ ...params, file: exported[0].buffer }, options);
     return { exports: exported, imports: imported };
   }
 
+  /**
+   * Serves the result of an execution from the memo (see `Config.memo`) if any, or
+   * executes the service and memoizes its result otherwise.
+   *
+   * Only executions pinning a version are memoized. Requesting memoization explicitly
+   * for other executions (or without a memo) is considered a programming error.
+   */
+  async #memoize<T>(body: ExecuteBody, memoize: boolean | undefined, execute: () => Promise<HttpResponse<T>>) {
+    const { memo } = this.config;
+    const { version_id: versionId, ...meta } = body.request_meta;
+    if (memoize === false || (!memo && memoize === undefined)) return execute();
+
+    if (!memo || !versionId) {
+      if (memoize === undefined) return execute(); // memoizing by default only applies to pinned versions.
+
+      const reason = memo ? 'a pinned version (versionId)' : 'the memoize client option';
+      const error = SparkError.sdk({ message: `execution memoization requires ${reason}`, cause: body.request_meta });
+      this.logger.error(error.message);
+      throw error;
+    }
+
+    const outputs = {
+      requested_output: meta.requested_output,
+      requested_output_regex: meta.requested_output_regex,
+      array_outputs: meta.array_outputs,
+      service_category: meta.service_category,
+      response_data_inputs: meta.response_data_inputs,
+    };
+    const key = await memo.keyFor({ versionId, inputs: body.request_data.inputs, outputs });
+    const memoized = await memo.get<T>(key);
+    if (memoized) {
+      this.logger.debug(`memoized execution hit for ${key}`);
+      return memoized;
+    }
+
+    this.logger.debug(`memoized execution miss for ${key}`);
+    return execute().then((response) => memo.set(key, response));
+  }
+
   #buildExecuteBody<T>(uri: UriParams, { data = {}, inputs: initialInputs, raw }: ExecuteParams<T> = {}): ExecuteBody {
     const defaultValues = { callPurpose: 'Single Execution', compilerType: 'Neuron', version: uri.version };
     const metadata = {
@@ -361,9 +559,10 @@ class Compilation extends ApiResource {
   /**
    * Uploads a service file and initiate the compilation process.
    * @param {CompileParams} params - the compilation parameters
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
    * @returns {Promise<HttpResponse<ServiceCompiled>>} the upload response
    */
-  async initiate(params: CompileParams): Promise<HttpResponse<ServiceCompiled>> {
+  async initiate(params: CompileParams, options?: CallOptions): Promise<HttpResponse<ServiceCompiled>> {
     const url = Uri.from(params, { base: this.config.baseUrl.full, endpoint: 'upload' });
     const [startDate, endDate] = DateUtils.parse(params.startDate, params.endDate);
     const metadata = {
@@ -378,7 +577,7 @@ class Compilation extends ApiResource {
       { name: 'serviceFile', fileStream: params.file, fileName: params.fileName ?? `${params.service}.xlsx` },
     ];
 
-    return this.request<ServiceCompiled>(url, { method: 'POST', multiparts }).then((response) => {
+    return this.request<ServiceCompiled>(url, { method: 'POST', multiparts }, options).then((response) => {
       this.logger.log(`service file uploaded <${response.data.response_data.original_file_documentid}>`);
       return response;
     });
@@ -387,30 +586,84 @@ class Compilation extends ApiResource {
   /**
    * Gets the status of a compilation job.
    * @param {GetStatusParams} params - how to locate the compilation job.
+   * @param {CallOptions} options - per-call request options; the cancellation token also stops the polling.
    * @returns {Promise<HttpResponse<CompilationStatus>>} the compilation status.
    */
-  async getStatus(params: GetStatusParams): Promise<HttpResponse<CompilationStatus>> {
-    const { jobId, maxRetries = this.config.maxRetries, retryInterval = this.config.retryInterval } = params;
+  async getStatus(params: GetStatusParams, options?: CallOptions): Promise<HttpResponse<CompilationStatus>> {
+    const { jobId } = params;
     const url = Uri.from(params, { base: this.config.baseUrl.full, endpoint: `getcompilationprogess/${jobId}` });
 
-    let retries = 0;
-    let response = await this.request<CompilationStatus>(url);
-    do {
-      const { progress } = response.data.response_data;
-      this.logger.log(`waiting for compilation job to complete - ${progress || 0}%`);
-      if (progress == 100) return response;
+    return this.poll(
+      {
+        name: `compilation job <${jobId}>`,
+        check: () => this.request<CompilationStatus>(url, {}, options),
+        isDone: ({ data }) => data.response_data.progress == 100 || data.response_data.status === 'Success',
+        progress: ({ data }) => ({ percent: data.response_data.progress || 0, status: data.response_data.status }),
+      },
+      params,
+      options,
+    );
+  }
+}
 
-      await Utils.sleep(getRetryTimeout(retries, retryInterval));
+class Versions extends ApiResource {
+  /**
+   * Updates the effective dates, label, tags or release notes of a version.
+   * @param {UpdateVersionParams} params - how to locate the version and what to update
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse<VersionUpdated>>} a successful status
+   * @throws {SparkSdkError} if there is nothing to update or the dates are invalid.
+   *
+   * The active version of a service is the one in effect at the time of the call.
+   * Hence, moving the effective dates of a version is how to activate or retire it.
+   */
+  async update(params: UpdateVersionParams, options?: CallOptions): Promise<HttpResponse<VersionUpdated>> {
+    const { folder, service, versionId, startDate, endDate, label, tags, releaseNotes } = params;
+    const toIsoString = (date: UpdateVersionParams['startDate'], name: string) => {
+      if (date === undefined) return undefined;
+      if (DateUtils.isDate(date)) return new Date(date).toISOString();
+      throw SparkError.sdk({ message: `invalid ${name} <${date}>`, cause: params });
+    };
+    const changes = {
+      effectiveStartDate: toIsoString(startDate, 'start date'),
+      effectiveEndDate: toIsoString(endDate, 'end date'),
+      versionLabel: label,
+      tags: Array.isArray(tags) ? tags.join(',') : tags,
+      releaseNote: releaseNotes,
+    };
+    const body = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    if (Utils.isEmptyObject(body)) throw SparkError.sdk({ message: 'no version info to update', cause: params });
 
-      retries++;
-      response = await this.request<CompilationStatus>(url);
-    } while (response.data.response_data.progress < 100 && retries < maxRetries);
+    const endpoint = `product/${folder}/engines/${service}/versions/${versionId}`;
+    const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
+    return this.request(url, { method: 'PATCH', body }, options);
+  }
 
-    if (response.data.response_data.status === 'Success') return response;
+  /**
+   * Retires a version by ending its effectiveness, so that it is no longer active.
+   * @param {VersionParams} params - how to locate the version
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse<VersionUpdated>>} a successful status
+   *
+   * Unlike {@link Versions.delete}, the version remains available for later use
+   * (e.g., executing it by its ID or reactivating it).
+   */
+  retire(params: VersionParams, options?: CallOptions): Promise<HttpResponse<VersionUpdated>> {
+    const { folder, service, versionId } = params;
+    return this.update({ folder, service, versionId, endDate: new Date() }, options);
+  }
 
-    const error = SparkError.sdk({ message: `compilation job status check timed out`, cause: response });
-    this.logger.error(error.message);
-    throw error;
+  /**
+   * Deletes a version of a service.
+   * @param {VersionParams} params - how to locate the version
+   * @param {CallOptions} options - per-call request options (headers, timeout, cancellation, etc.)
+   * @returns {Promise<HttpResponse<VersionDeleted>>} a successful status
+   */
+  delete(params: VersionParams, options?: CallOptions): Promise<HttpResponse<VersionDeleted>> {
+    const { folder, service, versionId } = params;
+    const endpoint = `product/${folder}/engines/${service}/versions/${versionId}`;
+    const url = Uri.from(undefined, { base: this.config.baseUrl.value, version: 'api/v1', endpoint });
+    return this.request(url, { method: 'DELETE' }, options);
   }
 }
 
@@ -455,6 +708,15 @@ interface ExecuteParams<Inputs = Record<string, any>> {
   readonly data?: ExecuteData<Inputs>;
   readonly inputs?: Inputs;
   readonly raw?: string;
+
+  // Marks the execution as safe to retry upon transient failures (e.g., 502, 503, 504).
+  readonly idempotent?: boolean;
+
+  // Checks the inputs against the service schema before executing it (defaults to `Config.validateInputs`).
+  readonly validateInputs?: boolean;
+
+  // Serves the result from the execution memo if pinning a version (defaults to whether `Config.memo` is set).
+  readonly memoize?: boolean;
 }
 
 type ExecuteBody<Inputs = Record<string, any>> = {
@@ -550,3 +812,31 @@ interface VersionInfo {
 }
 
 export type VersionListed = VersionApiResponse<VersionInfo[]>;
+
+interface ServiceInfo {
+  id: string;
+  serviceName: string;
+  folderName: string;
+  description: string | null;
+  tags: string | null;
+  originalFileName: string;
+  versionCount: number;
+  activeVersion: string;
+  activeVersionId: string;
+  effectiveStartDate: string;
+  effectiveEndDate: string;
+  createdAt: string;
+  createdBy: string;
+  lastModifiedDate: string;
+  lastModifiedBy: string;
+}
+
+export type ServiceListed = VersionApiResponse<ServiceInfo[]> & { count: number; next: number; previous: number };
+
+export type ServiceFound = VersionApiResponse<ServiceInfo>;
+
+type ServiceDeleted = VersionApiResponse<null>;
+
+type VersionUpdated = VersionApiResponse<null>;
+
+type VersionDeleted = VersionApiResponse<null>;
@@ -1,5 +1,6 @@
-import { type Readable } from 'stream';
 import { type Config } from '../config';
+import { type FileInput } from '../http';
+import { type PollingOptions } from '../polling';
 
 import { UriParams } from './base';
 import { ImportDestination } from './impex';
@@ -10,8 +11,38 @@ export type ExportFilters = { file?: 'migrate' | 'onpremises'; version?: 'latest
 
 export type IfEntityPresent = 'abort' | 'replace' | 'add_version';
 
+export interface SearchParams extends Pick<UriParams, 'folder'> {
+  folder: string;
+  name?: string;
+  tags?: string | string[];
+}
+
+export interface Paging {
+  page?: number;
+  size?: number;
+  sort?: string;
+}
+
+export interface GetParams extends Pick<UriParams, 'folder' | 'service'> {}
+
 export interface GetVersionsParams extends Pick<UriParams, 'folder' | 'service'> {}
 
+export interface DeleteParams extends Pick<UriParams, 'folder' | 'service'> {}
+
+export interface VersionParams extends Pick<UriParams, 'folder' | 'service' | 'versionId'> {
+  folder: string;
+  service: string;
+  versionId: string;
+}
+
+export interface UpdateVersionParams extends VersionParams {
+  startDate?: string | number | Date;
+  endDate?: string | number | Date;
+  label?: string;
+  tags?: string | string[];
+  releaseNotes?: string;
+}
+
 export interface GetSchemaParams extends Pick<UriParams, 'folder' | 'service'> {}
 
 export interface GetMetadataParams extends Omit<UriParams, 'version'> {}
@@ -36,29 +67,25 @@ export interface RecompileParams extends Pick<UriParams, 'folder' | 'service' |
   tags?: string | string[];
 }
 
-export interface CreateParams extends CompileParams {
+export interface CreateParams extends CompileParams, PollingOptions {
   draftName?: string;
   trackUser?: boolean;
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
 export interface CompileParams extends Pick<UriParams, 'folder' | 'service'> {
   folder: string;
   service: string;
-  file: Readable;
+  file: FileInput;
   fileName?: string;
   versioning?: UpgradeType;
   startDate?: string | number | Date;
   endDate?: string | number | Date;
 }
 
-export interface GetStatusParams extends Pick<UriParams, 'folder' | 'service'> {
+export interface GetStatusParams extends Pick<UriParams, 'folder' | 'service'>, PollingOptions {
   folder: string;
   service: string;
   jobId: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
 export interface PublishParams extends Pick<UriParams, 'folder' | 'service'> {
@@ -73,33 +100,27 @@ export interface PublishParams extends Pick<UriParams, 'folder' | 'service'> {
   trackUser?: boolean;
 }
 
-export interface ExportParams extends Pick<UriParams, 'folder' | 'service' | 'version' | 'versionId'> {
+export interface ExportParams extends Pick<UriParams, 'folder' | 'service' | 'version' | 'versionId'>, PollingOptions {
   serviceUri?: string;
   filters?: ExportFilters;
   sourceSystem?: string;
   correlationId?: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
-export interface ImportParams {
-  file: Readable;
+export interface ImportParams extends PollingOptions {
+  file: FileInput;
   destination: ImportDestination;
   config?: Config;
   ifPresent?: IfEntityPresent;
   sourceSystem?: string;
   correlationId?: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
 
-export interface MigrateParams {
+export interface MigrateParams extends PollingOptions {
   destination: ImportDestination;
   config: Config;
   filters?: ExportFilters;
   ifPresent?: IfEntityPresent;
   sourceSystem?: string;
   correlationId?: string;
-  maxRetries?: number;
-  retryInterval?: number;
 }
@@ -0,0 +1,183 @@
+import { type HttpMethod } from './http';
+import { SparkSdkError } from './error';
+import { NumberUtils } from './utils';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_INTERVAL } from './constants';
+import { DEFAULT_RETRY_MAX_DELAY_IN_MS, DEFAULT_RETRY_MAX_ELAPSED_TIME_IN_MS } from './constants';
+
+export type BackoffStrategy = 'exponential' | 'linear' | 'constant';
+
+export type JitterStrategy = 'full' | 'equal' | 'none';
+
+export type ErrorType = abstract new (...args: any[]) => Error;
+
+/**
+ * The settings of a retry policy.
+ *
+ * These options define which failures are considered transient, how long to wait
+ * between attempts and when to give up. The number of attempts and the base interval
+ * are still controlled by `ClientOptions.maxRetries` and `ClientOptions.retryInterval`.
+ */
+export interface RetryOptions {
+  /**
+   * The HTTP status codes that are safe to retry (defaults to 502, 503 and 504).
+   */
+  readonly statuses?: number[];
+
+  /**
+   * The error classes that are safe to retry (defaults to `SparkSdkError`, which
+   * wraps network failures such as dropped sockets or DNS errors).
+   */
+  readonly errors?: ErrorType[];
+
+  /**
+   * The HTTP methods considered idempotent (defaults to GET, PUT and DELETE).
+   *
+   * Requests using other methods (e.g., POST) are only retried when explicitly
+   * marked as idempotent via `RequestOptions.idempotent`.
+   */
+  readonly methods?: HttpMethod[];
+
+  /**
+   * How the delay grows between attempts (defaults to `exponential`).
+   */
+  readonly backoff?: BackoffStrategy;
+
+  /**
+   * How the delay gets randomized (defaults to `full`).
+   * - `full`: a random value between 0 and the computed delay.
+   * - `equal`: half of the computed delay plus a random value of the other half.
+   * - `none`: the computed delay as-is.
+   */
+  readonly jitter?: JitterStrategy;
+
+  /**
+   * The maximum delay (in milliseconds) between two attempts (defaults to 30 seconds).
+   */
+  readonly maxDelay?: number;
+
+  /**
+   * The maximum amount of time (in milliseconds) spent on a request, including
+   * all its retries (defaults to 2 minutes).
+   */
+  readonly maxElapsedTime?: number;
+}
+
+/**
+ * Describes a failed attempt to be assessed by a retry policy.
+ */
+export interface RetryAttempt {
+  /** The number of retries already performed. */
+  readonly retries: number;
+  /** The HTTP method of the request. */
+  readonly method: HttpMethod;
+  /** Whether the request was explicitly marked as safe to retry. */
+  readonly idempotent?: boolean;
+  /** The time (in milliseconds) elapsed since the first attempt. */
+  readonly elapsed: number;
+  /** The HTTP status code of the response, if any. */
+  readonly status?: number;
+  /** The error thrown by the attempt, if any. */
+  readonly error?: unknown;
+}
+
+/**
+ * A retry policy for transient failures.
+ *
+ * It decides whether a failed request should be attempted again and, if so, how
+ * long to wait before doing so. Unauthorized (401) and rate-limited (429) responses
+ * are handled separately by the HTTP layer and are not subject to this policy.
+ */
+export class RetryPolicy implements Required<RetryOptions> {
+  static readonly defaults: Required<RetryOptions> = {
+    statuses: [502, 503, 504],
+    errors: [SparkSdkError],
+    methods: ['GET', 'PUT', 'DELETE'],
+    backoff: 'exponential',
+    jitter: 'full',
+    maxDelay: DEFAULT_RETRY_MAX_DELAY_IN_MS,
+    maxElapsedTime: DEFAULT_RETRY_MAX_ELAPSED_TIME_IN_MS,
+  };
+
+  readonly statuses!: number[];
+  readonly errors!: ErrorType[];
+  readonly methods!: HttpMethod[];
+  readonly backoff!: BackoffStrategy;
+  readonly jitter!: JitterStrategy;
+  readonly maxDelay!: number;
+  readonly maxElapsedTime!: number;
+
+  constructor(
+    readonly maxRetries: number = DEFAULT_MAX_RETRIES,
+    readonly interval: number = DEFAULT_RETRY_INTERVAL,
+    options: RetryOptions = {},
+  ) {
+    const defaults = RetryPolicy.defaults;
+    this.statuses = options.statuses ?? defaults.statuses;
+    this.errors = options.errors ?? defaults.errors;
+    this.methods = options.methods ?? defaults.methods;
+    this.backoff = options.backoff ?? defaults.backoff;
+    this.jitter = options.jitter ?? defaults.jitter;
+    this.maxDelay = NumberUtils.isPositive(options.maxDelay) ? options.maxDelay! : defaults.maxDelay;
+    this.maxElapsedTime = NumberUtils.isPositive(options.maxElapsedTime)
+      ? options.maxElapsedTime!
+      : defaults.maxElapsedTime;
+  }
+
+  /**
+   * Whether the request can be safely sent more than once.
+   */
+  isIdempotent(method: HttpMethod, idempotent?: boolean): boolean {
+    return idempotent ?? this.methods.includes(method);
+  }
+
+  /**
+   * Whether the failure is considered transient.
+   */
+  isTransient({ status, error }: Pick<RetryAttempt, 'status' | 'error'>): boolean {
+    if (status !== undefined && this.statuses.includes(status)) return true;
+    return !!error && this.errors.some((type) => error instanceof type);
+  }
+
+  /**
+   * Computes the delay (in milliseconds) before the next attempt.
+   * @param {number} retries - the number of retries already performed
+   */
+  getDelay(retries: number): number {
+    const base = this.interval * 1000;
+    const delay = Math.min(
+      this.maxDelay,
+      this.backoff === 'exponential' ? base * 2 ** retries : this.backoff === 'linear' ? base * (retries + 1) : base,
+    );
+
+    if (this.jitter === 'full') return Math.ceil(Math.random() * delay);
+    if (this.jitter === 'equal') return Math.ceil(delay / 2 + (Math.random() * delay) / 2);
+    return Math.ceil(delay);
+  }
+
+  /**
+   * Assesses a failed attempt.
+   * @param {RetryAttempt} attempt - the failed attempt
+   * @returns the delay (in milliseconds) before the next attempt, or `undefined`
+   * if the request should not be retried.
+   */
+  next(attempt: RetryAttempt): number | undefined {
+    if (attempt.retries >= this.maxRetries) return undefined;
+    if (!this.isIdempotent(attempt.method, attempt.idempotent)) return undefined;
+    if (!this.isTransient(attempt)) return undefined;
+
+    const delay = this.getDelay(attempt.retries);
+    return attempt.elapsed + delay < this.maxElapsedTime ? delay : undefined;
+  }
+
+  toJson(): Omit<Required<RetryOptions>, 'errors'> & { errors: string[] } {
+    return {
+      statuses: this.statuses,
+      errors: this.errors.map((e) => e.name),
+      methods: this.methods,
+      backoff: this.backoff,
+      jitter: this.jitter,
+      maxDelay: this.maxDelay,
+      maxElapsedTime: this.maxElapsedTime,
+    };
+  }
+}
@@ -3,7 +3,7 @@ import { Buffer } from 'buffer';
 import { isBrowser, loadModule } from './utils';
 
 export class Streamer {
-  static fromBuffer(buffer: Buffer | ArrayBuffer): Readable {
+  static fromBuffer(buffer: Buffer | ArrayBuffer | Uint8Array): Readable {
     return isBrowser()
       ? new ReadableStream<Uint8Array>({
           start(controller) {
@@ -29,6 +29,15 @@ export class Streamer {
       : loadModule('stream').Readable.from(Buffer.from(data, 'base64'));
   }
 
+  /**
+   * Adapts a web stream (e.g., the body of a native fetch response) to a byte stream.
+   * In browser-like environments, the web stream is returned as-is.
+   */
+  static fromWeb(stream: ReadableStream<Uint8Array> | null): Readable {
+    if (!stream) return Streamer.fromBuffer(new ArrayBuffer(0));
+    return isBrowser() ? (stream as any) : loadModule('stream').Readable.fromWeb(stream);
+  }
+
   static async toBuffer(bytes: Readable): Promise<Buffer> {
     const buffers: Buffer[] = [];
     for await (const data of bytes) {
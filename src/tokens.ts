@@ -0,0 +1,142 @@
+import Utils, { loadModule } from './utils';
+import { SparkError } from './error';
+import { type AccessToken } from './auth';
+
+/**
+ * An OAuth2 access token along with its absolute expiry.
+ */
+export interface StoredToken {
+  /** The access token as issued by Keycloak (including the refresh token, if any). */
+  readonly accessToken: AccessToken;
+
+  /** The time (in milliseconds since epoch) at which the access token expires, if known. */
+  readonly expiresAt?: number;
+
+  /** The time (in milliseconds since epoch) at which the refresh token expires, if known. */
+  readonly refreshExpiresAt?: number;
+}
+
+/**
+ * A store used to persist OAuth2 access tokens.
+ *
+ * Tokens are keyed by Keycloak realm, client ID and user, if any (e.g.,
+ * `https://keycloak.us.coherent.global/auth/realms/my-tenant:my-client-id`) so that
+ * clients, worker threads or processes sharing the same credentials can reuse the
+ * same access token until it expires instead of requesting a new one.
+ *
+ * You may implement this interface to plug in another storage (e.g., Redis).
+ * Stored tokens are secrets: implementations must never log them.
+ */
+export interface TokenStore {
+  /** Gets the stored token for the given key, if any. */
+  get(key: string): Promise<StoredToken | undefined>;
+
+  /** Stores (or replaces) the token for the given key. */
+  set(key: string, token: StoredToken): Promise<void>;
+
+  /** Removes the stored token for the given key, if any. */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * A token store keeping tokens in memory (shared by all clients of the current process).
+ */
+export class MemoryTokenStore implements TokenStore {
+  readonly #tokens = new Map<string, StoredToken>();
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    return this.#tokens.get(key);
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    this.#tokens.set(key, token);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.#tokens.delete(key);
+  }
+}
+
+/**
+ * A token store keeping tokens in a JSON file (Node environments only).
+ *
+ * The file is readable and writable by its owner only (0600), and its folder gets
+ * created if missing (0700). Writes are atomic so that concurrent processes never
+ * read a partially written file.
+ */
+export class FileTokenStore implements TokenStore {
+  readonly filePath: string;
+
+  /**
+   * @param {string} filePath - the path to the JSON file (defaults to `~/.cspark/tokens.json`)
+   */
+  constructor(filePath?: string) {
+    if (Utils.isBrowser()) {
+      throw SparkError.sdk('file token store is not supported in browser-like environments');
+    }
+
+    const homeDir = Utils.getHomeDir();
+    if (!filePath && !homeDir) {
+      throw SparkError.sdk('unable to locate the home directory; provide a file path for the token store');
+    }
+    this.filePath = filePath ?? `${homeDir}/.cspark/tokens.json`;
+  }
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    return this.#read()[key];
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    this.#write({ ...this.#read(), [key]: token });
+  }
+
+  async delete(key: string): Promise<void> {
+    const tokens = this.#read();
+    if (!(key in tokens)) return;
+
+    delete tokens[key];
+    this.#write(tokens);
+  }
+
+  #read(): Record<string, StoredToken> {
+    const fs = loadModule('fs');
+    if (!fs.existsSync(this.filePath)) return {};
+
+    try {
+      const tokens = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return Utils.isObject(tokens) ? (tokens as Record<string, StoredToken>) : {};
+    } catch {
+      return {}; // a corrupted file is overwritten by the next write.
+    }
+  }
+
+  #write(tokens: Record<string, StoredToken>): void {
+    const fs = loadModule('fs');
+    const dirPath = this.filePath.replace(/[\\/][^\\/]*$/, '');
+    // a unique temporary file per write, as worker threads share the same process ID.
+    const tmpPath = `${this.filePath}.${loadModule('crypto').randomBytes(8).toString('hex')}.tmp`;
+
+    try {
+      if (dirPath !== this.filePath) fs.mkdirSync(dirPath, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(tmpPath, JSON.stringify(tokens), { encoding: 'utf8', mode: 0o600 });
+      fs.renameSync(tmpPath, this.filePath);
+      fs.chmodSync(this.filePath, 0o600);
+    } catch (cause) {
+      try {
+        fs.rmSync(tmpPath, { force: true }); // not to leave the tokens behind in plain text.
+      } catch {
+        // best effort
+      }
+      throw SparkError.sdk({ message: `failed to write tokens to file <${this.filePath}>`, cause });
+    }
+  }
+}
+
+let defaultTokenStore: TokenStore | undefined;
+
+/**
+ * Gets the default token store (in memory).
+ */
+export function getDefaultTokenStore(): TokenStore {
+  return (defaultTokenStore ??= new MemoryTokenStore());
+}
@@ -0,0 +1,203 @@
+import { type Readable as ByteStream } from 'stream';
+import nodeFetch from 'node-fetch';
+
+import { type HttpMethod } from './http';
+import { type AgentFactory, type NetworkOptions, createAgent, hasProxyEnv } from './network';
+import { Streamer } from './streaming';
+import Utils from './utils';
+
+/**
+ * A fully built HTTP request ready to be sent over the wire.
+ */
+export interface TransportRequest {
+  /** The final URL, including query parameters. */
+  readonly url: string;
+
+  /** The HTTP method. */
+  readonly method: HttpMethod;
+
+  /** The request headers, including the authorization header if any. */
+  readonly headers: Record<string, string>;
+
+  /** The request body (e.g., a string, a byte stream or a multipart form). */
+  readonly body?: any;
+
+  /** The signal used to abort the request. */
+  readonly signal?: AbortSignal;
+
+  /** The maximum amount of time (in milliseconds) to wait for a response. */
+  readonly timeout?: number;
+}
+
+/**
+ * A normalized HTTP response regardless of the underlying HTTP client.
+ */
+export interface TransportResponse {
+  /** The HTTP status code. */
+  readonly status: number;
+
+  /** The response headers (lowercased names). */
+  readonly headers: Record<string, string>;
+
+  /** Reads the whole response body. */
+  arrayBuffer(): Promise<ArrayBuffer>;
+
+  /**
+   * Streams the response body as it arrives, if supported by the transport.
+   * Only one of `arrayBuffer()` and `body()` may be called.
+   */
+  body?(): ByteStream;
+}
+
+/**
+ * An HTTP transport used to send requests to the Spark APIs.
+ *
+ * By default, the SDK relies on the native fetch API when available (Node 18+ and
+ * browsers), and falls back to `node-fetch` otherwise. You may implement this
+ * interface to plug in another HTTP client (e.g., undici, an HTTP client bound to
+ * a corporate proxy agent, or an in-memory transport for testing purposes).
+ *
+ * Redirects must not be followed automatically. Aborted requests must reject with
+ * an error named `AbortError` so that they are not mistaken for network failures.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * A transport based on `node-fetch` (v2).
+ *
+ * Unlike the native fetch API, it supports custom HTTP agents, hence proxies,
+ * private certificate authorities and mutual TLS (see `NetworkOptions`).
+ */
+export class NodeFetchTransport implements Transport {
+  /**
+   * @param {AgentFactory} agent - picks the HTTP agent to use for each request (defaults to Node's global agents)
+   */
+  constructor(readonly agent?: AgentFactory) {}
+
+  /**
+   * Creates a transport whose HTTP agents honor the given network settings.
+   * @param {NetworkOptions} options - proxy, TLS and keep-alive settings
+   */
+  static from(options: NetworkOptions = {}): NodeFetchTransport {
+    return new this(createAgent(options));
+  }
+
+  async send({ url, method, headers, body, signal, timeout }: TransportRequest): Promise<TransportResponse> {
+    const response = await nodeFetch(url, {
+      method,
+      headers,
+      body,
+      signal: signal as any,
+      timeout,
+      redirect: 'manual',
+      agent: this.agent,
+    });
+    return {
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      arrayBuffer: () => response.arrayBuffer(),
+      body: () => response.body as ByteStream,
+    };
+  }
+}
+
+/**
+ * A transport based on the native fetch API (Node 18+ and browsers).
+ */
+export class NativeFetchTransport implements Transport {
+  async send({ url, method, headers, body, signal, timeout }: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timedOut = false;
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    // Like node-fetch, the timeout and the abort signal also cover reading the body.
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    };
+    const failure = (cause: unknown) => (timedOut ? new Error(`network timeout at: ${url}`) : cause);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: NativeFetchTransport.toBody(body),
+        signal: controller.signal,
+        redirect: 'manual',
+        ...(Utils.isBrowser() || !isByteStream(body) ? {} : { duplex: 'half' }),
+      } as RequestInit);
+
+      return {
+        status: response.status,
+        headers: Object.fromEntries((response.headers as any).entries()),
+        arrayBuffer: () =>
+          response
+            .arrayBuffer()
+            .catch((cause) => Promise.reject(failure(cause)))
+            .finally(done),
+        body: () => {
+          const stream = Streamer.fromWeb(response.body);
+          stream.once?.('close', done); // web streams (browsers) are left to the timeout
+          return stream;
+        },
+      };
+    } catch (cause) {
+      done();
+      throw failure(cause);
+    }
+  }
+
+  /**
+   * Converts Node-specific bodies into the ones supported by the native fetch API.
+   */
+  private static toBody(body: any): any {
+    if (!body || Utils.isBrowser()) return body;
+    if (typeof body.getBuffer === 'function') return body.getBuffer(); // multipart form (form-data)
+    return body;
+  }
+}
+
+function isByteStream(body: unknown): body is ByteStream {
+  return !!body && typeof (body as ByteStream).pipe === 'function';
+}
+
+/**
+ * Whether the native fetch API is reliable in the current environment.
+ *
+ * Node 18 is the first LTS version shipping a stable fetch implementation.
+ */
+export function hasNativeFetch(): boolean {
+  if (typeof fetch !== 'function') return false;
+  if (Utils.isBrowser()) return true;
+
+  const major = parseInt(typeof process !== 'undefined' ? process.versions?.node?.split('.')[0] : '', 10);
+  return major >= 18;
+}
+
+let defaultTransport: Transport | undefined;
+
+/**
+ * Gets the default transport for the current environment.
+ *
+ * When network settings are given, or a proxy is set via `HTTPS_PROXY` (or `HTTP_PROXY`),
+ * the `node-fetch` transport is used as the native fetch API does not support agents.
+ * @param {NetworkOptions} network - proxy, TLS and keep-alive settings, if any
+ */
+export function getDefaultTransport(network?: NetworkOptions): Transport {
+  if (network) return NodeFetchTransport.from(network);
+  if (defaultTransport) return defaultTransport;
+
+  if (!Utils.isBrowser() && hasProxyEnv()) return (defaultTransport = NodeFetchTransport.from());
+  return (defaultTransport = hasNativeFetch() ? new NativeFetchTransport() : new NodeFetchTransport());
+}
@@ -12,7 +12,7 @@ async function bootstrapModules(names: string[]) {
   }
 }
 
-bootstrapModules(['fs', 'stream', 'crypto', 'form-data', 'buffer']); // FIXME: use shims instead.
+bootstrapModules(['fs', 'stream', 'crypto', 'form-data', 'buffer', 'http', 'https', 'tls']); // FIXME: use shims instead.
 
 export function isBrowser() {
   return typeof window === 'object' && typeof document === 'object' && typeof navigator !== 'undefined';
@@ -64,6 +64,13 @@ export function readEnv(env: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Gets the home directory of the current user (in Node environment only).
+ */
+export function getHomeDir(): string | undefined {
+  return readEnv('HOME') || readEnv('USERPROFILE') || undefined;
+}
+
 /**
  * Generates a random UUIDv4.
  * Inspired by: https://stackoverflow.com/a/2117523
@@ -112,8 +119,35 @@ export function formatUrl(baseUrl: string | URL, params: Record<string, string>
   return `${url}${searchParams ? (url.includes('?') ? '&' : '?') + searchParams : ''}`;
 }
 
-export function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal, 'sleep aborted'));
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!, 'sleep aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(undefined);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Builds the error to throw when an operation is aborted via an `AbortSignal`.
+ *
+ * The signal's reason is used when it's an `AbortError`; otherwise, a new error named
+ * `AbortError` is created so that it's rethrown as-is rather than wrapped or retried.
+ */
+export function abortError(signal: AbortSignal, message = 'operation aborted'): Error {
+  const reason = signal.reason;
+  if (reason instanceof Error && reason.name === 'AbortError') return reason;
+
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
 }
 
 /**
@@ -159,7 +193,7 @@ export abstract class NumberUtils {
 
 export abstract class DateUtils {
   static isDate(value: unknown): value is Date {
-    if (value instanceof Date) return true;
+    if (value instanceof Date) return !Number.isNaN(value.getTime());
     if (typeof value === 'string' || typeof value === 'number') {
       return !Number.isNaN(Date.parse(value.toString()));
     }
@@ -190,6 +224,7 @@ export abstract class DateUtils {
 
 export default {
   readEnv,
+  getHomeDir,
   isEmptyObject,
   hasOwn,
   isObject,
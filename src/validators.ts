@@ -1,4 +1,5 @@
-import { StringUtils, NumberUtils, type Maybe } from './utils';
+import { type JsonSchema } from './codegen';
+import Utils, { StringUtils, NumberUtils, type Maybe } from './utils';
 import { SparkError } from './error';
 
 export abstract class Validator<T> {
@@ -100,11 +101,30 @@ export class PositiveIntegerValidator extends Validator<number | unknown> {
   }
 }
 
+/**
+ * A trusted host: either a hostname (e.g., `localhost`), a wildcard pattern matching
+ * subdomains (e.g., `*.spark.my-company.com`) or a regular expression.
+ */
+export type HostPattern = string | RegExp;
+
 export class BaseUrlValidator extends Validator<Maybe<string>> {
   readonly #wildcard = /^https?:\/\/(?:[^./]+\.)+coherent\.global(?:\/[^/?#]+)*(?:[?#].*)?$/i;
   static #validator: BaseUrlValidator;
 
-  static getInstance(): BaseUrlValidator {
+  /**
+   * @param {HostPattern[]} trustedHosts - hosts accepted in addition to `*.coherent.global`
+   * @param {boolean} strict - whether to reject hosts that are neither Spark's nor trusted
+   */
+  constructor(
+    readonly trustedHosts: HostPattern[] = [],
+    readonly strict: boolean = true,
+  ) {
+    super();
+  }
+
+  static getInstance(trustedHosts?: HostPattern[], strict?: boolean): BaseUrlValidator {
+    if (trustedHosts?.length || strict === false) return new this(trustedHosts, strict);
+
     const validator = this.#validator || (this.#validator = new this());
     validator.reset();
     return validator;
@@ -113,15 +133,162 @@ export class BaseUrlValidator extends Validator<Maybe<string>> {
   validate(value: Maybe<string>): void {
     if (!value) throw SparkError.sdk({ message: 'base URL is required', cause: value });
 
-    if (!this.#wildcard.test(value!)) {
-      throw SparkError.sdk({ message: 'must be a Spark base URL <*.coherent.global>', cause: value });
-    }
-
+    let url: URL;
     try {
-      new URL(value!);
+      url = new URL(value!);
     } catch (cause) {
       throw SparkError.sdk({ message: `<${value}> must be a valid URL`, cause });
     }
+
+    if (this.#wildcard.test(value!) || !this.strict) {
+      if (/^https?:$/.test(url.protocol)) return;
+      throw SparkError.sdk({ message: 'must be an HTTP(S) URL', cause: value });
+    }
+
+    if (/^https?:$/.test(url.protocol) && this.isTrusted(url.hostname)) return;
+    throw SparkError.sdk({ message: 'must be a Spark base URL <*.coherent.global> or a trusted host', cause: value });
+  }
+
+  /**
+   * Whether the hostname matches any of the trusted host patterns.
+   */
+  isTrusted(hostname: string): boolean {
+    return this.trustedHosts.some((pattern) => {
+      if (pattern instanceof RegExp) return pattern.test(hostname);
+
+      const host = pattern.trim().toLowerCase();
+      if (!host.startsWith('*.')) return hostname.toLowerCase() === host;
+
+      const domain = host.slice(2).replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`^(?:[^.]+\\.)+${domain}$`, 'i').test(hostname);
+    });
+  }
+}
+
+/**
+ * A value that does not comply with its JSON schema.
+ */
+export interface SchemaViolation {
+  /** Where the value is located (e.g., `inputs.members[0].age`). */
+  readonly path: string;
+  /** What is wrong with the value (e.g., "must be a number"). */
+  readonly message: string;
+  /** The invalid value, if any. */
+  readonly value?: unknown;
+}
+
+/**
+ * Checks values (e.g., the inputs of a service) against a JSON schema.
+ *
+ * Unlike other validators, it reports every violation rather than the first one:
+ * the `SparkSdkError` thrown by `validate` lists them all as its `cause`.
+ */
+export class SchemaValidator extends Validator<unknown> {
+  /**
+   * @param {JsonSchema} schema - the JSON schema to comply with
+   * @param {string} name - the name of the value, used as the root of the violation paths
+   */
+  constructor(
+    readonly schema: JsonSchema,
+    readonly name: string = 'inputs',
+  ) {
+    super();
+  }
+
+  validate(value: unknown): void {
+    const violations = this.check(value);
+    if (violations.length === 0) return;
+
+    const details = violations.map(({ path, message }) => `${path} ${message}`).join('; ');
+    throw SparkError.sdk({ message: `invalid ${this.name} (${details})`, cause: violations });
+  }
+
+  /**
+   * Lists the violations of the value, if any.
+   * @param {unknown} value - the value to check
+   * @param {JsonSchema} schema - the (sub)schema to check the value against
+   * @param {string} path - where the value is located
+   */
+  check(value: unknown, schema: JsonSchema = this.schema, path: string = this.name): SchemaViolation[] {
+    if (value === undefined) return [];
+    if (value === null) {
+      return schema.nullable || schema.type === 'null' || !schema.type ? [] : [{ path, message: 'must not be null' }];
+    }
+    if (schema.enum && !schema.enum.includes(value as string)) {
+      return [{ path, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`, value }];
+    }
+    if (schema.type && !SchemaValidator.isOfType(value, schema.type)) {
+      return [{ path, message: `must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}`, value }];
+    }
+
+    if (typeof value === 'number') return this.#checkNumber(value, schema, path);
+    if (typeof value === 'string') return this.#checkString(value, schema, path);
+    if (Array.isArray(value)) {
+      const violations = this.#checkBounds(value.length, schema.minItems, schema.maxItems, 'items', path, value);
+      if (!schema.items) return violations;
+      return violations.concat(...value.map((item, i) => this.check(item, schema.items, `${path}[${i}]`)));
+    }
+    if (typeof value === 'object') return this.#checkObject(value as Record<string, unknown>, schema, path);
+    return [];
+  }
+
+  static isOfType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+    switch (type) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+
+  #checkNumber(value: number, schema: JsonSchema, path: string): SchemaViolation[] {
+    const { minimum, maximum, exclusiveMinimum: exclusiveMin, exclusiveMaximum: exclusiveMax } = schema;
+    // Swagger 2.0 flags the minimum (or maximum) as exclusive, whereas later JSON schemas provide the bound.
+    const lower = typeof exclusiveMin === 'number' ? exclusiveMin : exclusiveMin === true ? minimum : undefined;
+    const upper = typeof exclusiveMax === 'number' ? exclusiveMax : exclusiveMax === true ? maximum : undefined;
+
+    if (lower !== undefined && value <= lower) return [{ path, message: `must be greater than ${lower}`, value }];
+    if (upper !== undefined && value >= upper) return [{ path, message: `must be less than ${upper}`, value }];
+    if (minimum !== undefined && value < minimum) return [{ path, message: `must be at least ${minimum}`, value }];
+    if (maximum !== undefined && value > maximum) return [{ path, message: `must be at most ${maximum}`, value }];
+    return [];
+  }
+
+  #checkString(value: string, schema: JsonSchema, path: string): SchemaViolation[] {
+    const violations = this.#checkBounds(value.length, schema.minLength, schema.maxLength, 'characters', path, value);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      violations.push({ path, message: `must match the pattern ${schema.pattern}`, value });
+    }
+    return violations;
+  }
+
+  #checkObject(value: Record<string, unknown>, schema: JsonSchema, path: string): SchemaViolation[] {
+    const { properties = {}, required = [], additionalProperties } = schema;
+    const violations: SchemaViolation[] = required
+      .filter((key) => value[key] === undefined)
+      .map((key) => ({ path: `${path}.${key}`, message: 'is required' }));
+
+    for (const [key, item] of Object.entries(value)) {
+      if (properties[key]) violations.push(...this.check(item, properties[key], `${path}.${key}`));
+      else if (additionalProperties === false) violations.push({ path: `${path}.${key}`, message: 'is unknown' });
+      else if (Utils.isObject(additionalProperties))
+        violations.push(...this.check(item, additionalProperties, `${path}.${key}`));
+    }
+    return violations;
+  }
+
+  #checkBounds(length: number, min: Maybe<number>, max: Maybe<number>, unit: string, path: string, value: unknown) {
+    if (min !== undefined && length < min) return [{ path, message: `must have at least ${min} ${unit}`, value }];
+    if (max !== undefined && length > max) return [{ path, message: `must have at most ${max} ${unit}`, value }];
+    return [] as SchemaViolation[];
   }
 }
 
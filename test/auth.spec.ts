@@ -1,5 +1,13 @@
-import { SparkSdkError, Authorization } from '@cspark/sdk';
+import Spark, { SparkSdkError, SparkOptions, Authorization } from '@cspark/sdk';
+import { createHash } from 'crypto';
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { OAuth } from '@cspark/sdk/auth';
+import { Transport, TransportRequest } from '@cspark/sdk/transport';
+import { FileTokenStore, MemoryTokenStore } from '@cspark/sdk/tokens';
+import { UnauthorizedError } from '@cspark/sdk/error';
+import { Folder } from '@cspark/sdk/resources';
 
 describe('Authorization', () => {
   const TOKEN = 'some-access-token';
@@ -67,3 +75,383 @@ describe('Authorization', () => {
     expect(() => Authorization.from({})).toThrow(SparkSdkError);
   });
 });
+
+describe('OAuth', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+  const OAUTH = { clientId: 'some-id', clientSecret: 'some-secret' };
+  const STORE_KEY = 'https://keycloak.test.coherent.global/auth/realms/my-tenant:some-id';
+
+  // Issues tokens (token-1, token-2, ...) and rejects API calls using revoked ones.
+  const createTransport = (expiresIn: number, revoked: string[] = []) => {
+    const requests: TransportRequest[] = [];
+    let tokens = 0;
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+
+        const isTokenRequest = request.url.includes('openid-connect/token');
+        const token = request.headers['Authorization']?.replace('Bearer ', '');
+        const status = isTokenRequest || !revoked.includes(token!) ? 200 : 401;
+        const data = isTokenRequest
+          ? { access_token: `token-${++tokens}`, expires_in: expiresIn, refresh_token: `refresh-${tokens}` }
+          : { status: status === 200 ? 'Success' : 'Error', data: [] };
+        const body = new TextEncoder().encode(JSON.stringify(data));
+        return { status, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body.buffer };
+      },
+    };
+    const tokenRequests = () => requests.filter((r) => r.url.includes('openid-connect/token'));
+    const grants = () => tokenRequests().map((r) => Object.fromEntries(new URLSearchParams(r.body)));
+    return { transport, requests, tokenRequests, grants };
+  };
+
+  it('should lazily retrieve the access token before the first request', async () => {
+    const { transport, requests, tokenRequests } = createTransport(3600);
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      oauth: OAUTH,
+      logger: false,
+      transport,
+      tokenStore: new MemoryTokenStore(),
+    });
+    expect(spark.config.auth.asHeader).toEqual({});
+
+    await spark.folder.getCategories();
+    await spark.folder.getCategories();
+
+    expect(tokenRequests()).toHaveLength(1);
+    expect(tokenRequests()[0].headers).not.toHaveProperty('Authorization');
+    expect(requests[1].headers).toHaveProperty('Authorization', 'Bearer token-1');
+    expect(spark.config.auth.oauth?.expiresAt).toBeGreaterThan(Date.now() + 3500 * 1000);
+    expect(spark.config.auth.oauth?.isExpired).toBe(false);
+  });
+
+  it('should share one in-flight token request among concurrent requests', async () => {
+    const { transport, tokenRequests } = createTransport(3600);
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      oauth: OAUTH,
+      logger: false,
+      transport,
+      tokenStore: new MemoryTokenStore(),
+    });
+
+    await Promise.all(Array.from({ length: 20 }, () => spark.folder.getCategories()));
+
+    expect(tokenRequests()).toHaveLength(1);
+  });
+
+  it('should proactively refresh the access token within the skew window', async () => {
+    const { transport, requests, tokenRequests } = createTransport(30);
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      oauth: { ...OAUTH, refreshSkew: 60 },
+      logger: false,
+      transport,
+      tokenStore: new MemoryTokenStore(),
+    });
+
+    await spark.folder.getCategories();
+    await spark.folder.getCategories();
+
+    expect(tokenRequests()).toHaveLength(2);
+    expect(requests[3].headers).toHaveProperty('Authorization', 'Bearer token-2');
+  });
+
+  it('should refresh the access token only once upon concurrent unauthorized responses', async () => {
+    const { transport, tokenRequests } = createTransport(3600, ['token-1']);
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      oauth: OAUTH,
+      logger: false,
+      transport,
+      tokenStore: new MemoryTokenStore(),
+    });
+
+    const responses = await Promise.all(Array.from({ length: 20 }, () => spark.folder.getCategories()));
+
+    expect(responses.every((r) => r.status === 200)).toBe(true);
+    expect(tokenRequests()).toHaveLength(2);
+    expect(spark.config.auth.oauth?.accessToken).toBe('token-2');
+  });
+
+  it('should fail rather than renew the access token when the token request is unauthorized', async () => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request); // e.g., a wrong client secret
+        const body = new TextEncoder().encode(JSON.stringify({ error: 'unauthorized_client' }));
+        return { status: 401, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body.buffer };
+      },
+    };
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      oauth: OAUTH,
+      logger: false,
+      transport,
+      tokenStore: new MemoryTokenStore(),
+    });
+
+    await expect(spark.folder.getCategories()).rejects.toThrow(UnauthorizedError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should use the refresh token grant once an access token is obtained', async () => {
+    const { transport, grants } = createTransport(30);
+    const oauth = { clientId: 'some-id', username: 'jdoe', password: 'secret', refreshSkew: 60 };
+    const spark = new Spark({ baseUrl: BASE_URL, oauth, logger: false, transport, tokenStore: new MemoryTokenStore() });
+    expect(spark.config.auth.oauth?.flow).toBe('password');
+
+    await spark.folder.getCategories();
+    await spark.folder.getCategories();
+
+    expect(grants()).toEqual([
+      { client_id: 'some-id', grant_type: 'password', username: 'jdoe', password: 'secret' },
+      { client_id: 'some-id', grant_type: 'refresh_token', refresh_token: 'refresh-1' },
+    ]);
+  });
+
+  it('should support the authorization code flow with PKCE', async () => {
+    const { transport, grants } = createTransport(3600);
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      oauth: { clientId: 'my-app', flow: 'authorization_code' },
+      transport,
+    });
+    const oauth = spark.config.auth.oauth!;
+
+    const { codeVerifier, codeChallenge, codeChallengeMethod } = await OAuth.createPkce();
+    expect(codeVerifier).toMatch(/^[\w-]{43}$/);
+    expect(codeChallenge).toBe(createHash('sha256').update(codeVerifier).digest('base64url'));
+    expect(codeChallengeMethod).toBe('S256');
+
+    const url = new URL(oauth.getAuthorizationUrl(spark.config, { redirectUri: 'http://localhost/cb', codeChallenge }));
+    expect(url.origin + url.pathname).toBe(
+      'https://keycloak.test.coherent.global/auth/realms/my-tenant/protocol/openid-connect/auth',
+    );
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'my-app',
+      redirect_uri: 'http://localhost/cb',
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    await expect(spark.folder.getCategories()).rejects.toThrow(SparkSdkError); // not signed in yet
+    const pending = oauth.retrieveToken(spark.config).catch((error) => error); // unrelated to the code
+    await oauth.exchangeCode(spark.config, { code: 'some-code', codeVerifier, redirectUri: 'http://localhost/cb' });
+    expect(await pending).toBeInstanceOf(SparkSdkError);
+    await spark.folder.getCategories();
+
+    expect(oauth.accessToken).toBe('token-1');
+    expect(grants()).toEqual([
+      {
+        client_id: 'my-app',
+        grant_type: 'authorization_code',
+        code: 'some-code',
+        code_verifier: codeVerifier,
+        redirect_uri: 'http://localhost/cb',
+      },
+    ]);
+  });
+
+  it('should validate the credentials of the chosen flow', () => {
+    expect(() => new OAuth({ clientId: 'some-id' })).toThrow(SparkSdkError);
+    expect(() => new OAuth({ clientId: 'some-id', username: 'jdoe' })).toThrow(SparkSdkError);
+    expect(() => new OAuth({ clientId: 'some-id', flow: 'password' })).toThrow(SparkSdkError);
+    expect(() => new OAuth({ clientId: 'some-id', flow: 'implicit' })).toThrow(SparkSdkError);
+    expect(new OAuth({ clientId: 'some-id', refreshToken: 'some-token' }).flow).toBe('refresh_token');
+  });
+
+  it('should reuse stored tokens across clients until they expire', async () => {
+    const { transport, tokenRequests } = createTransport(3600);
+    const tokenStore = new MemoryTokenStore();
+    const spark1 = new Spark({ baseUrl: BASE_URL, oauth: OAUTH, logger: false, transport, tokenStore });
+    const spark2 = new Spark({ baseUrl: BASE_URL, oauth: OAUTH, logger: false, transport, tokenStore });
+    const other = new Spark({
+      baseUrl: BASE_URL,
+      oauth: { ...OAUTH, clientId: 'other' },
+      logger: false,
+      transport,
+      tokenStore,
+    });
+
+    await spark1.folder.getCategories();
+    await spark2.folder.getCategories();
+    expect(tokenRequests()).toHaveLength(1);
+    expect(spark2.config.auth.oauth?.accessToken).toBe('token-1');
+    expect(await tokenStore.get(STORE_KEY)).toMatchObject({ accessToken: { accessToken: 'token-1' } });
+
+    await other.folder.getCategories();
+    expect(tokenRequests()).toHaveLength(2);
+  });
+
+  it('should keep the stored tokens of distinct users and realms apart', async () => {
+    const { transport, tokenRequests } = createTransport(3600);
+    const tokenStore = new MemoryTokenStore();
+    const create = (oauth: SparkOptions['oauth'], baseUrl = BASE_URL) =>
+      new Spark({ baseUrl, oauth, logger: false, transport, tokenStore });
+    const alice = create({ clientId: 'some-id', refreshToken: 'refresh-alice' });
+    const bob = create({ clientId: 'some-id', refreshToken: 'refresh-bob' });
+    const other = create(OAUTH, 'https://excel.uat.us.coherent.global/my-tenant');
+
+    await alice.folder.getCategories();
+    await bob.folder.getCategories();
+    await create(OAUTH).folder.getCategories();
+    await other.folder.getCategories();
+
+    expect(tokenRequests()).toHaveLength(4);
+    expect(alice.config.auth.oauth?.accessToken).toBe('token-1');
+    expect(bob.config.auth.oauth?.accessToken).toBe('token-2');
+    expect(other.config.auth.oauth?.accessToken).toBe('token-4');
+    expect(await tokenStore.get(STORE_KEY)).toMatchObject({ accessToken: { accessToken: 'token-3' } });
+  });
+
+  it('should not rely on the atob and btoa globals in Node', async () => {
+    const { atob, btoa } = globalThis;
+    const jwt = ['{"alg":"none"}', '{"sub":"alice"}'].map((part) => Buffer.from(part).toString('base64url'));
+    const body = new TextEncoder().encode(JSON.stringify({ access_token: `${jwt.join('.')}.`, expires_in: 3600 }));
+    const transport: Transport = {
+      send: async () => ({
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        arrayBuffer: async () => body.buffer,
+      }),
+    };
+    const tokenStore = new MemoryTokenStore();
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      oauth: { clientId: 'some-id', refreshToken: 'some-token' },
+      logger: false,
+      transport,
+      tokenStore,
+    });
+
+    try {
+      Object.assign(globalThis, { atob: undefined, btoa: undefined }); // e.g., Node 14
+      expect((await OAuth.createPkce()).codeVerifier).toMatch(/^[\w-]{43}$/);
+      await spark.folder.getCategories();
+    } finally {
+      Object.assign(globalThis, { atob, btoa });
+    }
+    expect(await tokenStore.get(`${STORE_KEY}:alice`)).toBeDefined();
+  });
+
+  it('should persist tokens in a file readable by its owner only', async () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'cspark-')), 'nested', 'tokens.json');
+    const { transport, tokenRequests } = createTransport(3600);
+    const create = () => new FileTokenStore(filePath);
+    const spark1 = new Spark({ baseUrl: BASE_URL, oauth: OAUTH, logger: false, transport, tokenStore: create() });
+    const spark2 = new Spark({ baseUrl: BASE_URL, oauth: OAUTH, logger: false, transport, tokenStore: create() });
+
+    await spark1.folder.getCategories();
+    await spark2.folder.getCategories();
+
+    expect(tokenRequests()).toHaveLength(1);
+    expect(statSync(filePath).mode & 0o777).toBe(0o600);
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))[STORE_KEY].accessToken.accessToken).toBe('token-1');
+
+    await create().delete(STORE_KEY);
+    expect(await create().get(STORE_KEY)).toBeUndefined();
+  });
+
+  it('should not leave temporary token files behind when failing to persist tokens', async () => {
+    const dirPath = mkdtempSync(join(tmpdir(), 'cspark-'));
+    const filePath = join(dirPath, 'tokens.json');
+    mkdirSync(join(filePath, 'occupied'), { recursive: true }); // cannot be replaced by a file
+    const { transport } = createTransport(3600);
+    const tokenStore = new FileTokenStore(filePath);
+    const spark = new Spark({ baseUrl: BASE_URL, oauth: OAUTH, logger: false, transport, tokenStore });
+
+    await spark.folder.getCategories(); // the token is still used, though not persisted
+    expect(readdirSync(dirPath)).toEqual(['tokens.json']);
+  });
+});
+
+describe('Credential providers', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+
+  // Rejects API calls using revoked API keys or bearer tokens.
+  const createTransport = (revoked: string[] = []) => {
+    const credentials: string[] = [];
+    const transport: Transport = {
+      async send({ headers }) {
+        const credential = headers['x-synthetic-key'] ?? headers['Authorization'];
+        credentials.push(credential);
+        const status = revoked.includes(credential) ? 401 : 200;
+        const body = new TextEncoder().encode(JSON.stringify({ status: status === 200 ? 'Success' : 'Error' }));
+        return { status, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body.buffer };
+      },
+    };
+    return { transport, credentials };
+  };
+
+  it('should invoke the provider before every request', async () => {
+    const { transport, credentials } = createTransport();
+    let count = 0;
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: async () => `key-${++count}`, logger: false, transport });
+    expect(spark.config.auth.type).toBe('apiKey');
+    expect(spark.config.auth.isRenewable).toBe(true);
+
+    await spark.folder.getCategories();
+    await spark.folder.getCategories();
+
+    expect(credentials).toEqual(['key-1', 'key-2']);
+    expect(spark.config.auth.apiKey).toBe('*ey-2');
+  });
+
+  it('should cache the provided credential for the given TTL', async () => {
+    const { transport, credentials } = createTransport();
+    let count = 0;
+    const token = { provider: () => `Bearer token-${++count}`, ttl: 60 };
+    const spark = new Spark({ baseUrl: BASE_URL, token, logger: false, transport });
+
+    await Promise.all([spark.folder.getCategories(), spark.folder.getCategories()]);
+    await spark.folder.getCategories();
+
+    expect(count).toBe(1);
+    expect(credentials).toEqual(['Bearer token-1', 'Bearer token-1', 'Bearer token-1']);
+    expect(spark.config.auth.token).toBe('token-1');
+  });
+
+  it('should invoke the provider again upon unauthorized responses', async () => {
+    const { transport, credentials } = createTransport(['key-1']);
+    let count = 0;
+    const apiKey = { provider: () => `key-${++count}`, ttl: 3600 };
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey, logger: false, transport });
+
+    const response = await spark.folder.getCategories();
+
+    expect(response.status).toBe(200);
+    expect(credentials).toEqual(['key-1', 'key-2']);
+  });
+
+  it('should keep providers when copying the configuration', async () => {
+    const { transport, credentials } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: () => 'my-key', logger: false, transport });
+
+    const config = spark.config.copyWith({ tenant: 'other-tenant' });
+    await new Folder(config).getCategories();
+
+    expect(credentials).toEqual(['my-key']);
+  });
+
+  it('should invoke the provider before downloading files with the client configuration', async () => {
+    const { transport, credentials } = createTransport();
+    let count = 0;
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: async () => `key-${++count}`, logger: false, transport });
+
+    await Spark.download('https://my-spark-file-url', spark.config);
+    await Spark.download('https://my-spark-file-url', spark.config.auth, transport); // used as is
+
+    expect(credentials).toEqual(['key-1', 'key-1']);
+  });
+
+  it('should wrap provider failures into SDK errors', async () => {
+    const { transport } = createTransport();
+    const apiKey = () => Promise.reject(new Error('vault is sealed'));
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey, logger: false, transport });
+
+    await expect(spark.folder.getCategories()).rejects.toThrow(SparkSdkError);
+  });
+});
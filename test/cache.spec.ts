@@ -0,0 +1,159 @@
+import Spark, { SparkSdkError } from '@cspark/sdk';
+import { CacheEntry, CacheStore, ExecutionMemo, MemoryStore, ResponseCache } from '@cspark/sdk/cache';
+import { Transport, TransportRequest } from '@cspark/sdk/transport';
+
+describe('ResponseCache', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // An in-memory transport tagging its responses with an ETag, and honoring If-None-Match.
+  const createTransport = (etag?: string) => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request);
+        const headers: Record<string, string> = { 'content-type': 'application/json', ...(etag && { etag }) };
+        if (etag && request.headers['If-None-Match'] === etag) {
+          return { status: 304, headers, arrayBuffer: async () => new ArrayBuffer(0) };
+        }
+
+        const body = new TextEncoder().encode(JSON.stringify({ status: 'Success', count: requests.length }));
+        return { status: 200, headers, arrayBuffer: async () => body.buffer };
+      },
+    };
+    return { transport, requests };
+  };
+
+  it('should only cache the read-only endpoints by default', async () => {
+    const { transport, requests } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport, cache: true });
+
+    const first = await spark.service.getMetadata('my-folder/my-service');
+    const second = await spark.service.getMetadata('my-folder/my-service');
+    await spark.service.getVersions('my-folder/my-service');
+    await spark.service.getVersions('my-folder/my-service');
+    await spark.service.getMetadata('my-folder/my-service', { cache: false });
+    await spark.service.execute('my-folder/my-service', { inputs: {} });
+    await spark.service.execute('my-folder/my-service', { inputs: {} });
+
+    expect(requests.map(({ method }) => method)).toEqual(['GET', 'GET', 'GET', 'POST', 'POST']);
+    expect(second.data).toEqual(first.data);
+    expect(second.buffer.read().toString()).toBe(JSON.stringify(first.data));
+  });
+
+  it('should not cache anything unless enabled', async () => {
+    const { transport, requests } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport });
+
+    await spark.service.getMetadata('my-folder/my-service');
+    await spark.service.getMetadata('my-folder/my-service', { cache: true });
+
+    expect(spark.config.cache).toBeUndefined();
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should revalidate expired responses using their ETag', async () => {
+    const { transport, requests } = createTransport('"v1"');
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport, cache: { ttl: 20 } });
+
+    const first = await spark.service.getSchema('my-folder/my-service');
+    await sleep(30);
+    const second = await spark.service.getSchema('my-folder/my-service');
+    await spark.service.getSchema('my-folder/my-service');
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers).not.toHaveProperty('If-None-Match');
+    expect(requests[1].headers).toHaveProperty('If-None-Match', '"v1"');
+    expect(second.status).toBe(200);
+    expect(second.data).toEqual(first.data);
+  });
+
+  it('should cache executions only when requested', async () => {
+    const { transport, requests } = createTransport();
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      apiKey: 'open',
+      logger: false,
+      transport,
+      cache: { ttl: { metadata: 0, execute: 60000 } },
+    });
+
+    await spark.service.execute('my-folder/my-service', { inputs: { value: 1 } });
+    await spark.service.execute('my-folder/my-service', { inputs: { value: 1 } });
+    await spark.service.execute('my-folder/my-service', { inputs: { value: 2 } });
+    await spark.service.getMetadata('my-folder/my-service');
+    await spark.service.getMetadata('my-folder/my-service');
+    await spark.service.getMetadata('my-folder/my-service', { cache: true });
+
+    expect(requests.map(({ method }) => method)).toEqual(['POST', 'POST', 'GET', 'GET', 'GET']);
+    expect(spark.config.cache?.ttl).toMatchObject({ schema: 300000, metadata: 0, execute: 60000 });
+  });
+
+  it('should share the cache and support custom stores', async () => {
+    const entries = new Map<string, CacheEntry>();
+    const store: CacheStore = {
+      get: async (key) => entries.get(key),
+      set: async (key, entry) => void entries.set(key, entry),
+      delete: async (key) => void entries.delete(key),
+      clear: async () => entries.clear(),
+    };
+    const cache = new ResponseCache({ store });
+    const { transport, requests } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport, cache });
+    const other = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport, cache });
+
+    await spark.service.getSwagger('my-folder/my-service');
+    await other.service.getSwagger('my-folder/my-service');
+    expect(requests).toHaveLength(1);
+    expect(spark.config.copyWith({ timeout: 1000 }).cache).toBe(cache);
+    expect([...entries.keys()]).toEqual([
+      `GET ${BASE_URL}/api/v3/folders/my-folder/services/my-service/downloadswagger/All/false/`,
+    ]);
+
+    await cache.clear();
+    await spark.service.getSwagger('my-folder/my-service');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should evict the least recently used responses from memory', () => {
+    const store = new MemoryStore(2);
+    const entry = { status: 200, headers: {}, data: null, body: new Uint8Array(), expiresAt: Date.now() };
+
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+
+    expect(store.size).toBe(2);
+    expect(store.get('a')).toBe(entry);
+    expect(store.get('b')).toBeUndefined();
+    expect(() => new MemoryStore(0)).toThrow(SparkSdkError);
+    expect(() => new ResponseCache({ ttl: { swagger: -1 } })).toThrow(SparkSdkError);
+  });
+
+  it('should memoize the executions of a pinned version', async () => {
+    const { transport, requests } = createTransport();
+    const messages: string[] = [];
+    const logger = { log: () => {}, warn: () => {}, error: () => {}, debug: (msg: string) => messages.push(msg) };
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: { logger }, transport, memoize: true });
+    const version = { versionId: 'my-version-id' };
+
+    const first = await spark.service.execute(version, { inputs: { a: 1, b: { c: 2, d: 3 } } });
+    const second = await spark.service.execute(version, { inputs: { b: { d: 3, c: 2 }, a: 1 } });
+    await spark.service.execute(version, { inputs: { a: 1, b: { c: 2, d: 3 } }, data: { output: 'value' } });
+    await spark.service.execute(version, { inputs: { a: 1, b: { c: 2, d: 3 } }, memoize: false });
+    await spark.service.execute('my-folder/my-service', { inputs: { a: 1, b: { c: 2, d: 3 } } });
+    await spark.service.execute('my-folder/my-service', { inputs: { a: 1, b: { c: 2, d: 3 } } });
+
+    expect(requests).toHaveLength(5);
+    expect(second.data).toEqual(first.data);
+    expect(messages.filter((msg) => msg.includes('memoized execution hit'))).toHaveLength(1);
+    expect(messages.filter((msg) => msg.includes('memoized execution miss'))).toHaveLength(2);
+
+    await expect(spark.service.execute('my-folder/my-service', { inputs: {}, memoize: true })).rejects.toThrow(
+      'execution memoization requires a pinned version (versionId)',
+    );
+    expect(spark.config.copyWith({ timeout: 1000 }).memo).toBe(spark.config.memo);
+    expect(() => new ExecutionMemo({ ttl: 0 })).toThrow(SparkSdkError);
+  });
+});
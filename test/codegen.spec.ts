@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SparkSdkError } from '@cspark/sdk';
+import { checkTypes, extractSchemas, generateTypes } from '@cspark/sdk/codegen';
+import { main } from '@cspark/sdk/cli';
+
+describe('Codegen', () => {
+  const swaggerPath = path.join(__dirname, '../docs/samples/service-swagger.json');
+  const swagger = JSON.parse(fs.readFileSync(swaggerPath, 'utf8'));
+
+  // A copy of the sample swagger whose inputs have changed.
+  const changeInputs = (inputs: object) => {
+    const changed = JSON.parse(JSON.stringify(swagger));
+    const [execute] = Object.values<any>(changed.paths);
+    execute.post.parameters.find((p: any) => p.in === 'body').schema.properties.request_data.properties.inputs = inputs;
+    return changed;
+  };
+
+  it('should extract the input and output schemas of a service', () => {
+    const schemas = extractSchemas(swagger);
+    expect(schemas.uri).toBe('my-folder/my-service');
+    expect(schemas.inputs).toEqual({ type: 'object', properties: { my_input: { type: 'integer' } } });
+    expect(schemas.outputs).toEqual({ type: 'object', properties: { my_output: { type: 'integer' } } });
+    expect(() => extractSchemas({ paths: {} })).toThrow(SparkSdkError);
+  });
+
+  it('should generate the types and an execute wrapper of a service', async () => {
+    const code = await generateTypes(swagger);
+
+    expect(code).toContain('export type MyServiceInputs = {\n  my_input?: number;\n};');
+    expect(code).toContain('export type MyServiceOutputs = {\n  my_output: number;\n};');
+    expect(code).toContain('export function executeMyService(spark: SparkClient, inputs: MyServiceInputs');
+    expect(code).toContain("execute<MyServiceInputs, MyServiceOutputs>('my-folder/my-service', { inputs }, options)");
+    expect(await generateTypes(swagger, { uri: 'other-folder/other-service', name: 'Pricing' })).toContain(
+      "export function executePricing(spark: SparkClient, inputs: PricingInputs, options?: CallOptions) {\n  return spark.service.execute<PricingInputs, PricingOutputs>('other-folder/other-service'",
+    );
+  });
+
+  it('should map nested, array and enum schemas to TypeScript types', async () => {
+    const code = await generateTypes(
+      changeInputs({
+        type: 'object',
+        required: ['plan'],
+        properties: {
+          plan: { type: 'string', enum: ['basic', 'premium'], description: 'The plan' },
+          'start date': { type: 'string', format: 'date' },
+          members: { type: 'array', items: { type: 'object', properties: { age: { type: 'number' } } } },
+          flags: { type: 'array', items: { type: 'boolean' } },
+          extra: { type: 'object' },
+        },
+      }),
+    );
+
+    expect(code).toContain(
+      [
+        'export type MyServiceInputs = {',
+        '  /** The plan */',
+        '  plan: "basic" | "premium";',
+        '  "start date"?: string;',
+        '  members?: Array<{',
+        '    age?: number;',
+        '  }>;',
+        '  flags?: boolean[];',
+        '  extra?: Record<string, unknown>;',
+        '};',
+      ].join('\n'),
+    );
+  });
+
+  it('should detect when the generated types no longer match the service', async () => {
+    const code = await generateTypes(swagger);
+
+    await expect(checkTypes(swagger, code)).resolves.toMatchObject({ upToDate: true });
+    await expect(checkTypes(changeInputs({ type: 'object' }), code)).resolves.toMatchObject({ upToDate: false });
+    await expect(checkTypes(swagger, '// hand-written types')).resolves.toMatchObject({ upToDate: false });
+  });
+
+  it('should generate and check the types from the command line', async () => {
+    const out = path.join(os.tmpdir(), `my-service-${Date.now()}.ts`);
+    const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      await expect(main(['--swagger', swaggerPath, '--out', out])).resolves.toBe(0);
+      expect(fs.readFileSync(out, 'utf8')).toContain('export type MyServiceInputs');
+      await expect(main(['--swagger', swaggerPath, '--out', out, '--check'])).resolves.toBe(0);
+
+      fs.writeFileSync(out, fs.readFileSync(out, 'utf8').replace(/@schema-hash \w+/, '@schema-hash 0'));
+      await expect(main(['--swagger', swaggerPath, '--out', out, '--check'])).resolves.toBe(1);
+
+      await expect(main(['--check', '--swagger', swaggerPath])).resolves.toBe(2);
+      await expect(main(['--unknown'])).resolves.toBe(2);
+    } finally {
+      fs.rmSync(out, { force: true });
+      stderr.mockRestore();
+      stdout.mockRestore();
+    }
+  });
+});
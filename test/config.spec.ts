@@ -88,4 +88,54 @@ describe('BaseUrl', () => {
     expect(() => BaseUrl.from({ url: 'file://excel.test.coherent.global/tenant' })).toThrow(SparkSdkError);
     expect(() => BaseUrl.from({ url: 'https://excel.spark.global/tenant' })).toThrow(SparkSdkError);
   });
+
+  it('should accept trusted hosts besides Spark ones', () => {
+    const hosts = { trusted: ['localhost', '*.spark.acme.com', /^10\.0\.0\.\d+$/] };
+    expect(BaseUrl.from({ url: 'http://localhost:8080/tenant', hosts }).full).toBe('http://localhost:8080/tenant');
+    expect(BaseUrl.from({ url: 'https://api.eu.spark.acme.com', tenant: 'tenant', hosts }).value).toBe(
+      'https://api.eu.spark.acme.com',
+    );
+    expect(BaseUrl.from({ url: 'http://10.0.0.12/tenant', hosts }).tenant).toBe('tenant');
+    expect(BaseUrl.from({ url: VALID_URL, hosts }).full).toBe(VALID_URL);
+
+    expect(() => BaseUrl.from({ url: 'https://spark.acme.com/tenant', hosts })).toThrow(SparkSdkError);
+    expect(() => BaseUrl.from({ url: 'https://evil-spark.acme.com/tenant', hosts })).toThrow(SparkSdkError);
+    expect(() => BaseUrl.from({ url: 'ftp://localhost/tenant', hosts })).toThrow(SparkSdkError);
+  });
+
+  it('should accept any HTTP(S) host when strict validation is off', () => {
+    expect(BaseUrl.from({ url: 'http://mock-gateway:3000/tenant', hosts: { strict: false } }).value).toBe(
+      'http://mock-gateway:3000',
+    );
+    expect(() => BaseUrl.from({ url: 'file://mock-gateway/tenant', hosts: { strict: false } })).toThrow(SparkSdkError);
+    expect(() => BaseUrl.from({ url: 'not a url', hosts: { strict: false } })).toThrow(SparkSdkError);
+  });
+
+  it('should derive service hosts using the host mapper', () => {
+    const spark = BaseUrl.from({ env: 'test', tenant: 'tenant' });
+    expect(spark.to('keycloak')).toBe('https://keycloak.test.coherent.global');
+    expect(spark.to('entitystore', true)).toBe('https://entitystore.test.coherent.global/tenant');
+    expect(spark.oauth2).toBe('https://keycloak.test.coherent.global/auth/realms/tenant');
+
+    const onPrem = BaseUrl.from({
+      url: 'https://spark.acme.com/tenant',
+      hosts: { trusted: ['spark.acme.com'], mapper: (service, origin) => origin.replace('spark', `${service}.spark`) },
+    });
+    expect(onPrem.to('excel', true)).toBe('https://spark.acme.com/tenant');
+    expect(onPrem.to('utility')).toBe('https://utility.spark.acme.com');
+    expect(onPrem.oauth2).toBe('https://keycloak.spark.acme.com/auth/realms/tenant');
+  });
+});
+
+describe('Config with custom hosts', () => {
+  it('should carry the host options over when copying a config', () => {
+    const config = new Config({
+      baseUrl: 'http://localhost:8080/tenant',
+      apiKey: 'open',
+      hosts: { trusted: ['localhost'] },
+    });
+    expect(config.baseUrl.full).toBe('http://localhost:8080/tenant');
+    expect(config.copyWith({ tenant: 'other' }).baseUrl.full).toBe('http://localhost:8080/other');
+    expect(() => new Config({ baseUrl: 'http://localhost:8080/tenant', apiKey: 'open' })).toThrow(SparkSdkError);
+  });
 });
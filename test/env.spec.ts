@@ -0,0 +1,80 @@
+import { SparkSdkError } from '@cspark/sdk';
+import { Config } from '@cspark/sdk/config';
+import { ENV_OPTIONS, readEnvOptions } from '@cspark/sdk/env';
+
+describe('EnvOptions', () => {
+  const ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...ENV };
+    Object.values(ENV_OPTIONS).forEach(([name]) => delete process.env[name]);
+    process.env.CSPARK_PROFILE = '';
+  });
+
+  afterAll(() => {
+    process.env = ENV;
+  });
+
+  it('should read typed options from environment variables', () => {
+    Object.assign(process.env, {
+      CSPARK_TENANT: 'my-tenant',
+      CSPARK_ENV: 'uat.us',
+      CSPARK_API_KEY: 'my-api-key',
+      CSPARK_TIMEOUT: '30000',
+      CSPARK_MAX_RETRIES: '5',
+      CSPARK_RETRY_INTERVAL: '0.5',
+      CSPARK_LOG_LEVEL: 'warn, error',
+      CSPARK_ALLOW_BROWSER: 'true',
+    });
+
+    expect(readEnvOptions()).toEqual({
+      tenant: 'my-tenant',
+      env: 'uat.us',
+      apiKey: 'my-api-key',
+      timeout: 30000,
+      maxRetries: 5,
+      retryInterval: 0.5,
+      logger: ['warn', 'error'],
+      allowBrowser: true,
+    });
+
+    const config = new Config();
+    expect(config.baseUrl.full).toBe('https://excel.uat.us.coherent.global/my-tenant');
+    expect(config.timeout).toBe(30000);
+    expect(config.maxRetries).toBe(5);
+    expect(config.retryInterval).toBe(0.5);
+    expect(config.logger.logLevels).toEqual(['warn', 'error']);
+    expect(config.allowBrowser).toBe(true);
+
+    expect(new Config({ timeout: 1000, logger: false })).toMatchObject({
+      timeout: 1000,
+      logger: { logLevels: ['none'] },
+    });
+  });
+
+  it('should allow disabling retries', () => {
+    process.env.CSPARK_MAX_RETRIES = '0';
+    expect(readEnvOptions()).toEqual({ maxRetries: 0 });
+    expect(new Config({ env: 'test', tenant: 'my-tenant', apiKey: 'open' }).maxRetries).toBe(0);
+  });
+
+  it('should ignore blank environment variables', () => {
+    process.env.CSPARK_TIMEOUT = '  ';
+    process.env.CSPARK_LOG_LEVEL = '';
+    expect(readEnvOptions()).toEqual({});
+  });
+
+  it.each([
+    ['CSPARK_TIMEOUT', '30s'],
+    ['CSPARK_TIMEOUT', '-1'],
+    ['CSPARK_MAX_RETRIES', '2.5'],
+    ['CSPARK_MAX_RETRIES', '-1'],
+    ['CSPARK_RETRY_INTERVAL', 'one'],
+    ['CSPARK_LOG_LEVEL', 'warn,loud'],
+    ['CSPARK_ALLOW_BROWSER', 'maybe'],
+  ])('should reject malformed %s=%s', (name, value) => {
+    process.env[name] = value;
+    expect(() => readEnvOptions()).toThrow(SparkSdkError);
+    expect(() => new Config({ env: 'test', tenant: 'my-tenant', apiKey: 'open' })).toThrow(name);
+  });
+});
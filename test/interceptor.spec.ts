@@ -0,0 +1,83 @@
+import Spark, { SparkApiError } from '@cspark/sdk';
+import { Interceptor } from '@cspark/sdk/http';
+import { Transport, TransportResponse } from '@cspark/sdk/transport';
+
+describe('Interceptor', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+
+  // Responds with the given statuses in sequence, then with 200.
+  const createTransport = (...statuses: number[]): Transport & { headers: Record<string, string>[] } => {
+    const headers: Record<string, string>[] = [];
+    return {
+      headers,
+      async send(request): Promise<TransportResponse> {
+        headers.push(request.headers);
+        const status = statuses.shift() ?? 200;
+        const body = new TextEncoder().encode(JSON.stringify({ status: status < 400 ? 'Success' : 'Error', data: [] }));
+        return { status, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body.buffer };
+      },
+    };
+  };
+
+  it('should await async hooks and share the request context', async () => {
+    const transport = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'my-key', logger: false, transport });
+    const contexts: unknown[] = [];
+
+    const interceptor = spark.use({
+      async beforeRequest(options) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        options.context!.startedAt = 42;
+        options.headers!['x-signature'] = 'signed';
+        return options;
+      },
+      async afterRequest(response, options) {
+        contexts.push(options.context);
+        return response;
+      },
+    });
+
+    await spark.folder.getCategories();
+
+    expect(transport.headers[0]).toHaveProperty('x-signature', 'signed');
+    expect(contexts).toEqual([{ startedAt: 42 }]);
+
+    expect(spark.eject(interceptor)).toBe(true);
+    expect(spark.eject(interceptor)).toBe(false);
+
+    await spark.folder.getCategories();
+    expect(transport.headers[1]).not.toHaveProperty('x-signature');
+  });
+
+  it('should let onError hooks recover from failures', async () => {
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'my-key', logger: false, transport: createTransport(400) });
+    const errors: unknown[] = [];
+    spark.use({
+      onError(error) {
+        errors.push(error);
+        return { status: 200, data: { status: 'Success', data: [] }, buffer: null, headers: {} } as any;
+      },
+    });
+
+    const res = await spark.folder.getCategories();
+
+    expect(res.status).toBe(200);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(SparkApiError);
+  });
+
+  it('should let onError hooks request a retry within the max retries', async () => {
+    const transport = createTransport(409, 409, 409);
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'my-key', logger: false, maxRetries: 2, transport });
+    const interceptor: Interceptor = { onError: () => ({ retry: true, delay: 0 }) };
+    spark.use(interceptor);
+
+    await expect(spark.folder.getCategories()).rejects.toThrow(SparkApiError);
+    expect(transport.headers).toHaveLength(3);
+
+    transport.headers.length = 0;
+    const res = await spark.folder.getCategories();
+    expect(res.status).toBe(200);
+    expect(transport.headers).toHaveLength(1);
+  });
+});
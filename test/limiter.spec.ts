@@ -0,0 +1,103 @@
+import Spark, { SparkSdkError } from '@cspark/sdk';
+import { _fetch } from '@cspark/sdk/http';
+import { RateLimiter } from '@cspark/sdk/limiter';
+import { Transport } from '@cspark/sdk/transport';
+
+describe('RateLimiter', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // An in-memory transport tracking the number of requests in flight.
+  const createTransport = (latency = 20) => {
+    const stats = { sent: [] as number[], inFlight: 0, maxInFlight: 0 };
+    const transport: Transport = {
+      async send() {
+        stats.sent.push(Date.now());
+        stats.maxInFlight = Math.max(stats.maxInFlight, ++stats.inFlight);
+        await sleep(latency);
+        stats.inFlight--;
+
+        const body = new TextEncoder().encode(JSON.stringify({ status: 'Success', data: [] }));
+        return { status: 200, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body.buffer };
+      },
+    };
+    return { transport, stats };
+  };
+
+  it('should cap the number of requests in flight', async () => {
+    const { transport, stats } = createTransport();
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      apiKey: 'open',
+      logger: false,
+      transport,
+      limiter: { maxConcurrency: 2 },
+    });
+
+    await Promise.all(Array.from({ length: 6 }, () => spark.folder.getCategories()));
+
+    expect(stats.sent).toHaveLength(6);
+    expect(stats.maxInFlight).toBe(2);
+    expect(spark.config.limiter).toMatchObject({ inFlight: 0, pending: 0 });
+  });
+
+  it('should cap the number of requests started per interval', async () => {
+    const { transport, stats } = createTransport(0);
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      apiKey: 'open',
+      logger: false,
+      transport,
+      limiter: { rate: 2, interval: 100 },
+    });
+
+    const startedAt = Date.now();
+    await Promise.all(Array.from({ length: 5 }, () => spark.folder.getCategories()));
+
+    // 2 requests right away (burst), then 1 every 50ms.
+    expect(stats.sent).toHaveLength(5);
+    expect(stats.sent[1] - startedAt).toBeLessThan(50);
+    expect(stats.sent[4] - startedAt).toBeGreaterThanOrEqual(140);
+  });
+
+  it('should share the limiter among resources and copies of the same client', async () => {
+    const { transport, stats } = createTransport();
+    const spark = new Spark({
+      baseUrl: BASE_URL,
+      apiKey: 'open',
+      logger: false,
+      transport,
+      limiter: { maxConcurrency: 1 },
+    });
+    const copy = spark.config.copyWith({ timeout: 5000 });
+
+    expect(copy.limiter).toBe(spark.config.limiter);
+    await Promise.all([spark.folder.getCategories(), spark.folder.getCategories(), spark.folder.getCategories()]);
+    expect(stats.maxInFlight).toBe(1);
+  });
+
+  it('should remove cancelled requests from the queue', async () => {
+    const { transport, stats } = createTransport(50);
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport, limiter });
+    const controller = new AbortController();
+
+    const first = spark.folder.getCategories();
+    const second = _fetch(`${BASE_URL}/folders`, { config: spark.config, cancellationToken: controller.signal });
+    await sleep(10);
+    expect(limiter.pending).toBe(1);
+
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    await first;
+
+    expect(limiter.pending).toBe(0);
+    expect(stats.sent).toHaveLength(1);
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new RateLimiter({ rate: 0 })).toThrow(SparkSdkError);
+    expect(() => new RateLimiter({ maxConcurrency: -1 })).toThrow(SparkSdkError);
+    expect(() => new Spark({ baseUrl: BASE_URL, apiKey: 'open', limiter: { interval: NaN } })).toThrow(SparkSdkError);
+  });
+});
@@ -0,0 +1,113 @@
+import http from 'http';
+import net from 'net';
+import { once } from 'events';
+
+import Spark, { SparkSdkError } from '@cspark/sdk';
+import { isProxyBypassed } from '@cspark/sdk/network';
+import { NodeFetchTransport } from '@cspark/sdk/transport';
+import LocalServer, { TestBaseUrl } from './resources/_server';
+
+describe('Network', () => {
+  const localSever = new LocalServer();
+  const tunnels: string[] = [];
+  const proxy = http.createServer((_, res) => res.writeHead(405).end());
+
+  proxy.on('connect', (req: http.IncomingMessage, clientSocket: net.Socket) => {
+    if (req.headers['proxy-authorization'] !== `Basic ${Buffer.from('user:p@ss').toString('base64')}`) {
+      return clientSocket.end('HTTP/1.1 407 Proxy Authentication Required\r\n\r\n');
+    }
+
+    tunnels.push(req.url!);
+    const [host, port] = req.url!.split(':');
+    const serverSocket = net.connect(Number(port), host, () => {
+      clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      serverSocket.pipe(clientSocket);
+      clientSocket.pipe(serverSocket);
+    });
+    serverSocket.on('error', () => clientSocket.destroy());
+    clientSocket.on('error', () => serverSocket.destroy());
+  });
+
+  const proxyUrl = (credentials = 'user:p%40ss') => {
+    const address = proxy.address() as net.AddressInfo;
+    return `http://${credentials}@localhost:${address.port}`;
+  };
+
+  const createClient = (transport: NodeFetchTransport) =>
+    new Spark({
+      baseUrl: new TestBaseUrl(`http://${localSever.hostname}:${localSever.port}`, 'my-tenant'),
+      apiKey: 'open',
+      logger: false,
+      maxRetries: 0,
+      transport,
+    });
+
+  beforeAll(async () => {
+    await localSever.start();
+    proxy.listen(0, 'localhost');
+    await once(proxy, 'listening');
+  });
+
+  afterAll(async () => {
+    proxy.close();
+    return localSever.stop();
+  });
+
+  beforeEach(() => {
+    tunnels.length = 0;
+  });
+
+  it('should tunnel requests through the proxy', async () => {
+    const spark = createClient(NodeFetchTransport.from({ proxy: proxyUrl(), noProxy: '', keepAlive: false }));
+    const res = await spark.folder.getCategories();
+
+    expect(res.status).toBe(200);
+    expect(res.data.data[0].key).toBe('Other');
+    expect(tunnels).toEqual([`${localSever.hostname}:${localSever.port}`]);
+  });
+
+  it('should bypass the proxy for hosts listed in noProxy', async () => {
+    const spark = createClient(NodeFetchTransport.from({ proxy: proxyUrl(), noProxy: 'localhost', keepAlive: false }));
+    const res = await spark.folder.getCategories();
+
+    expect(res.status).toBe(200);
+    expect(tunnels).toHaveLength(0);
+  });
+
+  it('should fail without leaking proxy credentials when the proxy refuses to connect', async () => {
+    const spark = createClient(NodeFetchTransport.from({ proxy: proxyUrl('user:wrong'), noProxy: '' }));
+    const error = await spark.folder.getCategories().catch((e) => e);
+
+    expect(error).toBeInstanceOf(SparkSdkError);
+    expect(error.details).toContain('status 407');
+    expect(error.details).not.toContain('wrong');
+    expect(tunnels).toHaveLength(0);
+  });
+
+  it('should use a node-fetch transport when network settings are given', () => {
+    const spark = new Spark({
+      baseUrl: 'https://excel.test.coherent.global/my-tenant',
+      apiKey: 'open',
+      network: { maxSockets: 10 },
+    });
+    expect(spark.config.transport).toBeInstanceOf(NodeFetchTransport);
+    expect((spark.config.transport as NodeFetchTransport).agent?.(new URL(spark.config.baseUrl.full))).toMatchObject({
+      maxSockets: 10,
+      keepAlive: true,
+    });
+  });
+
+  it.each([
+    ['https://excel.test.coherent.global', '*', true],
+    ['https://excel.test.coherent.global', 'coherent.global', true],
+    ['https://excel.test.coherent.global', '.test.coherent.global', true],
+    ['https://excel.test.coherent.global', 'localhost, *.coherent.global', true],
+    ['https://excel.test.coherent.global', 'excel.test.coherent.global:8443', false],
+    ['http://localhost:8080', 'localhost:8080', true],
+    ['https://excel.test.coherent.global', 'global.coherent', false],
+    ['https://not-coherent.global', 'coherent.global', false],
+    ['https://excel.test.coherent.global', '', false],
+  ])('should tell whether <%s> bypasses the proxy given <%s>', (url, noProxy, expected) => {
+    expect(isProxyBypassed(new URL(url), noProxy)).toBe(expected);
+  });
+});
@@ -0,0 +1,66 @@
+import { SparkSdkError } from '@cspark/sdk';
+import { Paginator, collect } from '@cspark/sdk/pagination';
+
+describe('Paginator', () => {
+  // An endpoint listing the given number of items, recording the pages fetched.
+  const createFetcher = (total: number, reportTotal = true) => {
+    const pages: number[] = [];
+    const fetchPage = async ({ page, size }: { page: number; size: number }) => {
+      pages.push(page);
+      const items = Array.from({ length: Math.max(0, Math.min(size, total - (page - 1) * size)) }).map(
+        (_, i) => (page - 1) * size + i + 1,
+      );
+      return { items, total: reportTotal ? total : undefined };
+    };
+    return { fetchPage, pages };
+  };
+
+  it('should fetch the pages lazily until the last one', async () => {
+    const { fetchPage, pages } = createFetcher(7);
+    const paginator = new Paginator(fetchPage, { pageSize: 3 });
+
+    expect(pages).toHaveLength(0);
+    await expect(paginator.collect()).resolves.toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(pages).toEqual([1, 2, 3]);
+  });
+
+  it('should stop fetching pages when the iteration is interrupted', async () => {
+    const { fetchPage, pages } = createFetcher(100);
+    const items: number[] = [];
+
+    for await (const item of new Paginator(fetchPage, { pageSize: 5 })) {
+      items.push(item);
+      if (item === 7) break;
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(pages).toEqual([1, 2]);
+  });
+
+  it('should honor the maximum number of items and the start page', async () => {
+    const { fetchPage, pages } = createFetcher(100);
+
+    await expect(new Paginator(fetchPage, { pageSize: 4, maxItems: 6, startPage: 2 }).collect()).resolves.toEqual([
+      5, 6, 7, 8, 9, 10,
+    ]);
+    expect(pages).toEqual([2, 3]);
+  });
+
+  it('should rely on the total count or a short page to detect the last page', async () => {
+    const counted = createFetcher(6);
+    await collect(new Paginator(counted.fetchPage, { pageSize: 3 }));
+    expect(counted.pages).toEqual([1, 2]);
+
+    const uncounted = createFetcher(6, false);
+    await collect(new Paginator(uncounted.fetchPage, { pageSize: 3 }));
+    expect(uncounted.pages).toEqual([1, 2, 3]);
+  });
+
+  it('should reject invalid pagination options', () => {
+    const { fetchPage } = createFetcher(1);
+    expect(() => new Paginator(fetchPage, { pageSize: 0 })).toThrow(SparkSdkError);
+    expect(() => new Paginator(fetchPage, { pageSize: 2.5 })).toThrow(SparkSdkError);
+    expect(() => new Paginator(fetchPage, { maxItems: -1 })).toThrow(SparkSdkError);
+    expect(() => new Paginator(fetchPage, { startPage: 0 })).toThrow(SparkSdkError);
+  });
+});
@@ -0,0 +1,75 @@
+import { SparkSdkError } from '@cspark/sdk';
+import { Poller, PollingProgress, pinDeadline } from '@cspark/sdk/polling';
+
+describe('Poller', () => {
+  // A job completing after the given number of status checks.
+  const createTask = (checks: number) => {
+    let count = 0;
+    return {
+      name: 'test job',
+      check: async () => ({ progress: Math.min(100, (++count / checks) * 100) }),
+      isDone: (state: { progress: number }) => state.progress === 100,
+      progress: (state: { progress: number }) => ({ percent: state.progress }),
+      get count() {
+        return count;
+      },
+    };
+  };
+
+  it('should poll until the job completes and report its progress', async () => {
+    const reports: PollingProgress[] = [];
+    const task = createTask(4);
+    const poller = new Poller({ maxRetries: 5, backoff: () => 1, onProgress: (p) => reports.push(p) });
+
+    await expect(poller.run(task)).resolves.toEqual({ progress: 100 });
+    expect(task.count).toBe(4);
+    expect(reports.map((p) => [p.attempt, p.percent, p.done])).toEqual([
+      [1, 25, false],
+      [2, 50, false],
+      [3, 75, false],
+      [4, 100, true],
+    ]);
+  });
+
+  it('should give up after the maximum number of status checks', async () => {
+    const task = createTask(10);
+    const poller = new Poller({ maxRetries: 2, backoff: 'constant', retryInterval: 0.001 });
+
+    await expect(poller.run(task)).rejects.toThrow('test job timed out after 3 status checks');
+    expect(task.count).toBe(3);
+  });
+
+  it('should stop once the deadline is reached', async () => {
+    const task = createTask(1000);
+    const poller = new Poller({ maxRetries: 1000, backoff: 'constant', retryInterval: 0.02, deadline: 50 });
+
+    const startedAt = Date.now();
+    await expect(poller.run(task)).rejects.toThrow(SparkSdkError);
+    expect(Date.now() - startedAt).toBeLessThan(200);
+    expect(task.count).toBeLessThan(6);
+  });
+
+  it('should stop as soon as the cancellation token is aborted', async () => {
+    const task = createTask(1000);
+    const controller = new AbortController();
+    const poller = new Poller({ maxRetries: 1000, backoff: 'constant', retryInterval: 10 }, controller.signal);
+
+    setTimeout(() => controller.abort(), 20);
+    await expect(poller.run(task)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(task.count).toBe(1);
+  });
+
+  it('should compute the delay according to the backoff strategy', () => {
+    expect(new Poller({ backoff: 'constant', retryInterval: 2 }).getDelay(3)).toBe(2000);
+    expect(new Poller({ backoff: 'linear', retryInterval: 2 }).getDelay(3)).toBe(6000);
+    expect(new Poller({ backoff: 'exponential', retryInterval: 2 }).getDelay(3)).toBe(8000);
+    expect(new Poller({ backoff: (attempt) => attempt * 10 }).getDelay(3)).toBe(30);
+    expect(new Poller({ retryInterval: 1 }).getDelay(1)).toBeLessThanOrEqual(1500);
+  });
+
+  it('should reject invalid deadlines and pin relative ones', () => {
+    expect(() => new Poller({ deadline: -1 })).toThrow(SparkSdkError);
+    expect(pinDeadline(1000)!.getTime()).toBeGreaterThan(Date.now());
+    expect(pinDeadline(undefined)).toBeUndefined();
+  });
+});
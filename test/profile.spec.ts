@@ -0,0 +1,78 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { SparkSdkError } from '@cspark/sdk';
+import { Config } from '@cspark/sdk/config';
+import { Profile } from '@cspark/sdk/profile';
+
+describe('Profile', () => {
+  const ENV = process.env;
+  const filePath = join(mkdtempSync(join(tmpdir(), 'cspark-')), 'config');
+
+  writeFileSync(
+    filePath,
+    JSON.stringify({
+      default: { env: 'sit', tenant: 'my-tenant', apiKey: 'default-key', timeout: 30000 },
+      prod: { baseUrl: 'https://excel.us.coherent.global/prod-tenant', token: 'prod-token', maxRetries: 5 },
+      broken: 'not an object',
+    }),
+  );
+
+  beforeEach(() => {
+    process.env = { ...ENV, CSPARK_CONFIG_FILE: filePath };
+    ['CSPARK_BASE_URL', 'CSPARK_API_KEY', 'CSPARK_BEARER_TOKEN', 'CSPARK_PROFILE'].forEach(
+      (e) => delete process.env[e],
+    );
+  });
+
+  afterAll(() => {
+    process.env = ENV;
+  });
+
+  it('should load the default profile unless another one is requested', () => {
+    expect(Profile.load()?.name).toBe('default');
+    expect(Profile.load('prod')?.settings.maxRetries).toBe(5);
+
+    process.env.CSPARK_PROFILE = 'prod';
+    expect(Profile.load()?.name).toBe('prod');
+  });
+
+  it('should throw an SDK error if the requested profile cannot be loaded', () => {
+    expect(() => Profile.load('unknown')).toThrow(SparkSdkError);
+    expect(() => Profile.load('broken')).toThrow(SparkSdkError);
+    expect(() => Profile.load('prod', join(tmpdir(), 'missing-config'))).toThrow(SparkSdkError);
+    expect(Profile.load(undefined, join(tmpdir(), 'missing-config'))).toBeUndefined();
+  });
+
+  it('should resolve settings as option > env var > profile > default', () => {
+    const config = new Config();
+    expect(config.profile).toBe('default');
+    expect(config.baseUrl.full).toBe('https://excel.sit.coherent.global/my-tenant');
+    expect(config.auth.asHeader).toEqual({ 'x-synthetic-key': 'default-key' });
+    expect(config.timeout).toBe(30000);
+    expect(config.maxRetries).toBe(2); // default value
+
+    process.env.CSPARK_API_KEY = 'env-key';
+    expect(new Config().auth.asHeader).toEqual({ 'x-synthetic-key': 'env-key' });
+
+    const configWithOptions = new Config({ apiKey: 'option-key', timeout: 1000 });
+    expect(configWithOptions.auth.asHeader).toEqual({ 'x-synthetic-key': 'option-key' });
+    expect(configWithOptions.timeout).toBe(1000);
+  });
+
+  it('should switch profiles when copying a config', () => {
+    const config = new Config({ profile: 'prod' });
+    expect(config.baseUrl.full).toBe('https://excel.us.coherent.global/prod-tenant');
+    expect(config.auth.token).toBe('prod-token');
+    expect(config.maxRetries).toBe(5);
+
+    const copy = config.copyWith({ profile: 'default' });
+    expect(copy.profile).toBe('default');
+    expect(copy.baseUrl.full).toBe('https://excel.sit.coherent.global/my-tenant');
+    expect(copy.auth.type).toBe('apiKey');
+    expect(copy.transport).toBe(config.transport);
+
+    expect(config.copyWith({ timeout: 5000 })).toMatchObject({ profile: 'prod', timeout: 5000, maxRetries: 5 });
+  });
+});
@@ -10,6 +10,8 @@ export class TestBaseUrl extends BaseUrl {
   }
 }
 
+let flakyRequestCount = 0;
+
 type ResponseHandler = (res: http.ServerResponse<http.IncomingMessage>) => void;
 
 // A simple local server for testing purposes.
@@ -57,6 +59,40 @@ export default class LocalServer {
       );
     }
 
+    // Spark.folder.find(params, paging) lists 5 folders
+    if (pathname === '/api/v1/product/list') {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk));
+      req.on('end', () => {
+        const { page, pageSize } = JSON.parse(body);
+        const first = (page - 1) * pageSize + 1;
+        const data = [];
+        for (let id = first; id < first + pageSize && id <= 5; id++) data.push({ id: `${id}`, name: `folder-${id}` });
+
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ status: 'Success', data, count: 5, next: page + 1, previous: page - 1 }));
+      });
+    }
+
+    // Spark.service.find('my-folder', paging) lists 3 services, searchable by name
+    if (pathname === '/api/v1/product/my-folder/engines') {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk));
+      req.on('end', () => {
+        const { search, page, pageSize } = JSON.parse(body);
+        const name = search.find((s: { field: string }) => s.field === 'name')?.value ?? '';
+        const services = ['my-service', 'my-other-service', 'flaky-service']
+          .map((service, i) => ({ id: `${i + 1}`, serviceName: service, folderName: 'my-folder', versionCount: i + 1 }))
+          .filter((service) => service.serviceName.includes(name));
+        const data = services.slice((page - 1) * pageSize, page * pageSize);
+
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ status: 'Success', data, count: services.length, errorCode: null, message: null }));
+      });
+    }
+
     // Spark.service.execute('my-folder/my-service')
     if (pathname === '/my-tenant/api/v3/folders/my-folder/services/my-service/execute') {
       res.statusCode = 200;
@@ -71,6 +107,28 @@ export default class LocalServer {
       );
     }
 
+    // Spark.service.execute('my-folder/flaky-service') fails once with 503
+    if (pathname === '/my-tenant/api/v3/folders/my-folder/services/flaky-service/execute') {
+      const isFirstAttempt = flakyRequestCount++ % 2 === 0;
+      res.statusCode = isFirstAttempt ? 503 : 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          status: isFirstAttempt ? 'Error' : 'Success',
+          response_data: isFirstAttempt ? null : { outputs: { my_output: 42 } },
+          response_meta: {},
+          error: null,
+        }),
+      );
+    }
+
+    // Spark.service.execute('my-folder/stalled-service') sends its headers but stalls its body
+    if (pathname === '/my-tenant/api/v3/folders/my-folder/services/stalled-service/execute') {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.write('{"status":');
+    }
+
     // Spark.service.execute('my-folder/my-service', inputs)
     if (pathname === '/my-tenant/api/v3/public/folders/my-folder/services/my-service/execute') {
       res.statusCode = 200;
@@ -84,5 +142,30 @@ export default class LocalServer {
         }),
       );
     }
+
+    // Spark.service.download('my-folder/my-service') sends 4 chunks of 64KB
+    if (pathname?.startsWith('/api/v1/product/my-folder/engines/my-service/download')) {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/octet-stream');
+      for (let i = 0; i < 4; i++) res.write(Buffer.alloc(64 * 1024, i));
+      res.end();
+    }
+
+    // Spark.folder.uploadCover(id, cover) echoes how the multipart body was received
+    if (pathname === '/api/v1/product/UploadCoverImage') {
+      let received = 0;
+      req.on('data', (chunk: Buffer) => (received += chunk.length));
+      req.on('end', () => {
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(
+          JSON.stringify({
+            received,
+            contentLength: req.headers['content-length'] ?? null,
+            chunked: req.headers['transfer-encoding'] === 'chunked',
+          }),
+        );
+      });
+    }
   }
 }
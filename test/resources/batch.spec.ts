@@ -0,0 +1,170 @@
+import Spark, { SparkApiError } from '@cspark/sdk';
+import { Transport } from '@cspark/sdk/transport';
+
+describe('Spark.batch', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  type Inputs = { value: number };
+  type Outputs = { doubled: number };
+
+  // An in-memory transport completing later chunks sooner than earlier ones, and failing on demand.
+  const createTransport = (fail: (inputs: Inputs[], attempt: number) => number | undefined = () => undefined) => {
+    const stats = {
+      chunks: [] as Inputs[][],
+      signals: [] as (AbortSignal | undefined)[],
+      swaggers: 0,
+      inFlight: 0,
+      maxInFlight: 0,
+    };
+    const transport: Transport = {
+      async send({ url, body, signal }) {
+        if (url.includes('downloadswagger')) {
+          stats.swaggers += 1;
+          const bytes = new TextEncoder().encode('{}'); // no schemas to be found
+          return {
+            status: 200,
+            headers: { 'content-type': 'application/json' },
+            arrayBuffer: async () => bytes.buffer,
+          };
+        }
+
+        const { inputs } = JSON.parse(body) as { inputs: Inputs[] };
+        stats.chunks.push(inputs);
+        stats.signals.push(signal);
+        stats.maxInFlight = Math.max(stats.maxInFlight, ++stats.inFlight);
+        await sleep(Math.max(0, 30 - stats.chunks.length * 5));
+        stats.inFlight--;
+
+        const headers = { 'content-type': 'application/json' };
+        const status = fail(inputs, stats.chunks.filter((c) => c[0].value === inputs[0].value).length);
+        if (status === 0) throw new TypeError('socket hang up');
+        const data = status
+          ? { error: { message: 'failed' } }
+          : {
+              outputs: inputs.map(({ value }) => ({ doubled: value * 2 })),
+              warnings: inputs.map(({ value }) => (value % 2 ? [{ message: 'odd value' }] : [])),
+              errors: inputs.map(() => []),
+              process_time: inputs.map(() => 2),
+            };
+        const bytes = new TextEncoder().encode(JSON.stringify(data));
+        return { status: status ?? 200, headers, arrayBuffer: async () => bytes.buffer };
+      },
+    };
+    return { transport, stats };
+  };
+
+  const range = (count: number) => Array.from({ length: count }, (_, value) => ({ value }));
+
+  it('should execute records chunk by chunk and yield their results in input order', async () => {
+    const { transport, stats } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport });
+
+    const execution = spark.batch.executeMany<Inputs, Outputs>('my-folder/my-service', {
+      records: range(25),
+      chunkSize: 4,
+      concurrency: 3,
+    });
+    const results = [];
+    for await (const result of execution) results.push(result);
+
+    expect(stats.chunks.map((chunk) => chunk.length)).toEqual([4, 4, 4, 4, 4, 4, 1]);
+    expect(stats.maxInFlight).toBe(3);
+    expect(results.map(({ index }) => index)).toEqual(range(25).map(({ value }) => value));
+    expect(results[7]).toEqual({
+      index: 7,
+      inputs: { value: 7 },
+      outputs: { doubled: 14 },
+      warnings: [{ message: 'odd value' }],
+      errors: [],
+      processTime: 2,
+    });
+    expect(execution.summary).toEqual({
+      records: 25,
+      chunks: 7,
+      retries: 0,
+      failed: 0,
+      warnings: 12,
+      errors: 0,
+      processTime: 50,
+    });
+  });
+
+  it('should bound the chunks in bytes and read records lazily', async () => {
+    const { transport, stats } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport });
+    async function* records() {
+      for (const record of range(10)) yield record; // 11 or 12 bytes each
+    }
+
+    const merged = await spark.batch
+      .executeMany<Inputs, Outputs>('my-folder/my-service', { records: records(), maxChunkBytes: 36 })
+      .collect();
+
+    expect(stats.chunks.map((chunk) => chunk.length)).toEqual([3, 3, 3, 1]);
+    expect(merged.outputs.map((output) => output?.doubled)).toEqual(range(10).map(({ value }) => value * 2));
+    expect(merged.warnings).toHaveLength(10);
+    expect(merged.process_time).toEqual(Array(10).fill(2));
+    expect(merged.failed).toEqual([]);
+  });
+
+  it('should retry failed chunks and report the ones that ultimately fail', async () => {
+    // the chunk starting at 2 fails once (503), whereas the one starting at 4 always fails (400).
+    const { transport, stats } = createTransport(([{ value }], attempt) =>
+      value === 2 && attempt === 1 ? 503 : value === 4 ? 400 : undefined,
+    );
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport, retryInterval: 0.01 });
+    const params = { records: range(6), chunkSize: 2, concurrency: 1 };
+
+    const merged = await spark.batch
+      .executeMany('my-folder/my-service', { ...params, continueOnError: true })
+      .collect();
+    expect(stats.chunks.map(([{ value }]) => value)).toEqual([0, 2, 2, 4]);
+    expect(merged.failed).toEqual([4, 5]);
+    expect(merged.outputs).toEqual([{ doubled: 0 }, { doubled: 2 }, { doubled: 4 }, { doubled: 6 }, null, null]);
+
+    await expect(spark.batch.executeMany('my-folder/my-service', params).collect()).rejects.toThrow(SparkApiError);
+    expect(() => spark.batch.executeMany('my-folder/my-service', { ...params, chunkSize: 0 })).toThrow(
+      'chunkSize must be a positive integer',
+    );
+  });
+
+  it('should only retry the chunks failing because of the network or the server', async () => {
+    // the chunk starting at 2 loses its connection once.
+    const { transport, stats } = createTransport(([{ value }], attempt) =>
+      value === 2 && attempt === 1 ? 0 : undefined,
+    );
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport, retryInterval: 0.01 });
+    const params = { records: range(4), chunkSize: 2, concurrency: 1 };
+
+    const merged = await spark.batch.executeMany('my-folder/my-service', params).collect();
+    expect(stats.chunks.map(([{ value }]) => value)).toEqual([0, 2, 2]);
+    expect(merged.failed).toEqual([]);
+
+    // the inputs cannot be validated since the swagger has no schemas: a client-side failure.
+    const execution = spark.batch.executeMany('my-folder/my-service', { ...params, validateInputs: true });
+    await expect(execution.collect()).rejects.toThrow('swagger documentation has no input and output schemas');
+    expect(stats.swaggers).toBe(1);
+    expect(stats.chunks).toHaveLength(3);
+    expect(execution.summary.retries).toBe(0);
+  });
+
+  it('should abort the chunks in flight when stopped early', async () => {
+    const { transport, stats } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport });
+
+    const execution = spark.batch.executeMany<Inputs, Outputs>('my-folder/my-service', {
+      records: range(20),
+      chunkSize: 2,
+      concurrency: 3,
+    });
+    for await (const result of execution) {
+      expect(result.index).toBe(0);
+      break;
+    }
+
+    expect(stats.chunks).toHaveLength(3);
+    expect(stats.signals.map((signal) => signal?.aborted)).toEqual([true, true, true]);
+    expect(execution.summary).toMatchObject({ records: 2, chunks: 1, failed: 0 });
+  });
+});
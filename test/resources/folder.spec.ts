@@ -40,4 +40,16 @@ describe('Spark.folder', () => {
     expect(res.data.data).toHaveLength(1); // Spark API returns more
     expect(res.data.data[0].key).toBe('Other');
   });
+
+  it('should iterate over the folders page by page', async () => {
+    const names: string[] = [];
+    for await (const folder of spark.folder.findAll({}, { pageSize: 2 })) {
+      names.push(folder.name);
+      if (names.length === 3) break;
+    }
+    expect(names).toEqual(['folder-1', 'folder-2', 'folder-3']);
+
+    const folders = await spark.folder.findAll('folder', { pageSize: 2 }).collect();
+    expect(folders.map((f) => f.id)).toEqual(['1', '2', '3', '4', '5']);
+  });
 });
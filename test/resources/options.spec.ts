@@ -0,0 +1,66 @@
+import Spark, { SparkApiError } from '@cspark/sdk';
+import { Transport, TransportRequest } from '@cspark/sdk/transport';
+
+describe('Per-call options', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+
+  // An in-memory transport recording the requests and replying with the given status.
+  const createClient = (reply: (request: TransportRequest) => { status: number; body: object }) => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request);
+        const { status, body } = reply(request);
+        const buffer = new TextEncoder().encode(JSON.stringify(body)).buffer;
+        return { status, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => buffer };
+      },
+    };
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, retryInterval: 0.01, transport });
+    return { spark, requests };
+  };
+
+  it('should merge per-call headers, params and timeout with the client defaults', async () => {
+    const { spark, requests } = createClient(() => ({ status: 200, body: { status: 'Success', data: [] } }));
+
+    await spark.folder.getCategories({ headers: { 'x-my-header': 'my-value' }, params: { page: '2' }, timeout: 1234 });
+    await spark.folder.getCategories();
+
+    expect(requests[0].headers).toMatchObject({ 'x-my-header': 'my-value', 'x-tenant-name': 'my-tenant' });
+    expect(requests[0].url).toContain('getcategories?page=2');
+    expect(requests[0].timeout).toBe(1234);
+    expect(requests[1].headers).not.toHaveProperty('x-my-header');
+    expect(requests[1].timeout).toBe(spark.config.timeout);
+  });
+
+  it('should override the retry settings for a single call', async () => {
+    const { spark, requests } = createClient(() => ({ status: 503, body: { error: 'unavailable' } }));
+
+    await expect(spark.folder.getCategories({ maxRetries: 0 })).rejects.toThrow(SparkApiError);
+    expect(requests).toHaveLength(1);
+
+    requests.length = 0;
+    await expect(spark.folder.getCategories({ maxRetries: 1 })).rejects.toThrow(SparkApiError);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should stop polling an export job when the call is cancelled', async () => {
+    const { spark, requests } = createClient(({ method }) =>
+      method === 'POST'
+        ? {
+            status: 200,
+            body: { id: 'job-id', object: 'export', status_url: `${BASE_URL}/api/v4/export/job-id/status` },
+          }
+        : { status: 200, body: { id: 'job-id', status: 'in_progress' } },
+    );
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const exported = spark.impex.export(
+      { services: ['my-folder/my-service'], maxRetries: 100, retryInterval: 1 },
+      { cancellationToken: controller.signal },
+    );
+
+    await expect(exported).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests.length).toBeLessThan(4);
+  });
+});
@@ -0,0 +1,136 @@
+import Spark, { SparkApiError } from '@cspark/sdk';
+import { Transport } from '@cspark/sdk/transport';
+
+describe('Spark.batch.run', () => {
+  const BASE_URL = 'https://excel.test.coherent.global/my-tenant';
+  const CAPACITY = 200; // the size (in bytes) of the input buffer
+
+  // An in-memory batch pipeline processing one chunk whenever it is polled, which may
+  // drop a pushed chunk, or fail after a number of pulls.
+  const createTransport = ({ failOnPush = Infinity, dropOnPush = 0, failOnPull = Infinity } = {}) => {
+    const pipeline = {
+      pending: [] as { id: string; inputs: number[]; size: number }[],
+      processed: [] as { id: string; outputs: number[] }[],
+      pushed: 0,
+      maxUsed: 0,
+      statusChecks: 0,
+      pulls: 0,
+      state: 'open',
+    };
+    const status = () => {
+      const used = pipeline.pending.reduce((sum, { size }) => sum + size, 0);
+      pipeline.maxUsed = Math.max(pipeline.maxUsed, used);
+      const completed = pipeline.state === 'closed' && pipeline.pending.length === 0;
+      return {
+        batch_status: pipeline.pulls >= failOnPull ? 'failed' : completed ? 'completed' : pipeline.state,
+        input_buffer_used_bytes: used,
+        input_buffer_remaining_bytes: CAPACITY - used,
+        output_buffer_used_bytes: pipeline.processed.length,
+        output_buffer_remaining_bytes: 1000,
+        records_available: pipeline.processed.length,
+      };
+    };
+    const process = () => {
+      const chunk = pipeline.pending.shift();
+      if (chunk) pipeline.processed.push({ id: chunk.id, outputs: chunk.inputs.map((value) => value * 2) });
+    };
+
+    const transport: Transport = {
+      async send({ method, url, body }) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        const path = new URL(url).pathname.replace('/my-tenant/api/v4/', '');
+        let data: any = {};
+        let statusCode = 200;
+
+        if (method === 'POST' && path === 'batch') data = { id: 'my-batch-id', batch_status: 'created' };
+        else if (method === 'POST' && path === 'batch/my-batch-id/chunks') {
+          if (++pipeline.pushed >= failOnPush) [statusCode, data] = [400, { error: { message: 'bad chunk' } }];
+          else if (pipeline.pushed === dropOnPush) data = { ...status(), record_submitted: 1 };
+          else {
+            for (const { id, data } of JSON.parse(body).chunks) {
+              pipeline.pending.push({ id, inputs: data.inputs, size: JSON.stringify({ id, data }).length });
+            }
+            data = { ...status(), record_submitted: 1 };
+          }
+        } else if (method === 'GET' && path === 'batch/my-batch-id/status') {
+          pipeline.statusChecks++;
+          process();
+          data = status();
+        } else if (method === 'GET' && path === 'batch/my-batch-id/chunkresults') {
+          pipeline.pulls++;
+          process();
+          data = { data: pipeline.processed.splice(0, 2), status: status() };
+        } else if (method === 'PATCH' && path === 'batch/my-batch-id') {
+          pipeline.state = JSON.parse(body).batch_status;
+          data = { id: 'my-batch-id', status: pipeline.state };
+        }
+
+        const bytes = new TextEncoder().encode(JSON.stringify(data));
+        const headers = { 'content-type': 'application/json' };
+        return { status: statusCode, headers, arrayBuffer: async () => bytes.buffer };
+      },
+    };
+    return { transport, pipeline };
+  };
+
+  const chunks = (count: number) => Array.from({ length: count }, (_, i) => [i * 10, i * 10 + 1, i * 10 + 2]);
+
+  it('should push the input chunks with backpressure and pull their results concurrently', async () => {
+    const { transport, pipeline } = createTransport();
+    const spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport });
+    async function* source() {
+      yield* chunks(5);
+      yield { id: 'my-chunk-id', data: { inputs: [50, 51], parameters: {} } };
+    }
+
+    const run = spark.batch.run<number, number>('my-folder/my-service', source(), { pollInterval: 5 });
+    const results = await run.collect();
+
+    expect(results).toHaveLength(6);
+    expect(results.flatMap(({ outputs }) => outputs).sort((a, b) => a - b)).toEqual(
+      [...chunks(5).flat(), 50, 51].map((value) => value * 2),
+    );
+    expect(results.map(({ chunkId }) => chunkId)).toContain('my-chunk-id');
+    expect(pipeline.statusChecks).toBeGreaterThan(0); // waited for room in the input buffer
+    expect(pipeline.maxUsed).toBeLessThanOrEqual(CAPACITY);
+    expect(pipeline.state).toBe('closed');
+    expect(run.pipeline?.stats).toEqual({ chunks: 6, records: 17 });
+  });
+
+  it('should cancel the pipeline on errors or when stopped early', async () => {
+    const failing = createTransport({ failOnPush: 3 });
+    let spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport: failing.transport });
+
+    await expect(spark.batch.run('my-folder/my-service', chunks(5), { pollInterval: 5 }).collect()).rejects.toThrow(
+      SparkApiError,
+    );
+    expect(failing.pipeline.state).toBe('cancelled');
+
+    const { transport, pipeline } = createTransport();
+    spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport });
+    for await (const result of spark.batch.run('my-folder/my-service', chunks(5), { pollInterval: 5 })) {
+      expect(result.outputs).toHaveLength(3);
+      break;
+    }
+    expect(pipeline.state).toBe('cancelled');
+    expect(() => spark.batch.run('my-folder/my-service', [], { maxChunks: 0 })).toThrow(
+      'maximum number of chunks to pull must be a positive integer',
+    );
+  });
+
+  it('should end or fail the run according to the pipeline status', async () => {
+    const dropping = createTransport({ dropOnPush: 2 });
+    let spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport: dropping.transport });
+
+    const results = await spark.batch.run('my-folder/my-service', chunks(4), { pollInterval: 5 }).collect();
+    expect(results).toHaveLength(3); // the dropped chunk never comes out
+    expect(dropping.pipeline.state).toBe('closed');
+
+    const failing = createTransport({ failOnPull: 2 });
+    spark = new Spark({ baseUrl: BASE_URL, apiKey: 'open', logger: false, transport: failing.transport });
+    await expect(spark.batch.run('my-folder/my-service', chunks(4), { pollInterval: 5 }).collect()).rejects.toThrow(
+      'batch pipeline <my-batch-id> failed',
+    );
+    expect(failing.pipeline.state).not.toBe('cancelled');
+  });
+});
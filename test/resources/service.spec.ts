@@ -1,4 +1,8 @@
-import Spark, { ApiResource } from '@cspark/sdk';
+import fs from 'fs';
+import path from 'path';
+import Spark, { ApiResource, SparkSdkError } from '@cspark/sdk';
+import { Transport, TransportRequest } from '@cspark/sdk/transport';
+import { NotFoundError, ServiceUnavailableError } from '@cspark/sdk/error';
 import LocalServer, { TestBaseUrl } from './_server';
 
 describe('Spark.service', () => {
@@ -15,6 +19,7 @@ describe('Spark.service', () => {
       baseUrl: new TestBaseUrl(`http://${localSever.hostname}:${localSever.port}`, 'my-tenant'),
       apiKey: 'open',
       logger: false,
+      retryInterval: 0.01,
     });
     spark.config.extraHeaders['my-extra-header'] = 'my-extra-value';
     spark.config.interceptors.add({
@@ -48,6 +53,7 @@ describe('Spark.service', () => {
           request_meta: { call_purpose: 'Single Execution', compiler_type: 'Neuron', source_system: 'Spark JS SDK' },
         },
       }),
+      undefined, // no per-call options
     );
 
     expect(res.status).toBe(200);
@@ -76,6 +82,7 @@ describe('Spark.service', () => {
           request_meta: { call_purpose: 'Single Execution', compiler_type: 'Neuron', source_system: 'Spark JS SDK' },
         },
       }),
+      undefined, // no per-call options
     );
 
     expect(res.status).toBe(200);
@@ -84,4 +91,175 @@ describe('Spark.service', () => {
     expect(res.data.response_data.outputs).toBeDefined();
     expect(res.data.response_data.outputs.my_output).toBe(44);
   });
+
+  it('should send the per-call headers along with the execution', async () => {
+    const requests: TransportRequest[] = [];
+    const body = new TextEncoder().encode(JSON.stringify({ status: 'Success', response_data: {} })).buffer;
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request);
+        return { status: 200, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body };
+      },
+    };
+    const client = new Spark({
+      baseUrl: 'https://excel.test.coherent.global/my-tenant',
+      apiKey: 'open',
+      logger: false,
+      transport,
+    });
+    const options = { headers: { 'x-request-id': 'my-request-id', 'my-header': 'my-value' }, timeout: 1000 };
+
+    await client.service.execute('my-folder/my-service', { inputs: {} }, options);
+    await client.service.validate('my-folder/my-service', { inputs: {} }, options);
+
+    for (const { headers, timeout } of requests) {
+      expect(headers).toMatchObject(options.headers);
+      expect(timeout).toBe(1000);
+    }
+  });
+
+  it('should retry a transient failure only when the execution is marked as idempotent', async () => {
+    const res = await spark.service.execute<Inputs, Outputs>('my-folder/flaky-service', { idempotent: true });
+    expect(res.status).toBe(200);
+    expect(res.data.response_data.outputs.my_output).toBe(42);
+
+    await expect(spark.service.execute('my-folder/flaky-service')).rejects.toThrow(ServiceUnavailableError);
+  });
+
+  it('should list, search and inspect the services of a folder', async () => {
+    const res = await spark.service.find('my-folder', { size: 2 });
+    expect(res.data.data.map((s) => s.serviceName)).toEqual(['my-service', 'my-other-service']);
+    expect(res.data.count).toBe(3);
+
+    const services = await spark.service.findAll({ folder: 'my-folder', name: 'my-' }, { pageSize: 1 }).collect();
+    expect(services.map((s) => s.serviceName)).toEqual(['my-service', 'my-other-service']);
+
+    const found = await spark.service.get('my-folder/my-other-service');
+    expect(found.data.data).toMatchObject({ serviceName: 'my-other-service', versionCount: 2 });
+    await expect(spark.service.get('my-folder/unknown-service')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should look up a service beyond the first page of partial name matches', async () => {
+    const requests: TransportRequest[] = [];
+    const services = [...Array.from({ length: 150 }, (_, i) => `my-service-${i}`), 'my-service'];
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request);
+        const { page, pageSize } = JSON.parse(request.body);
+        const data = services
+          .slice((page - 1) * pageSize, page * pageSize)
+          .map((serviceName) => ({ id: serviceName, serviceName, folderName: 'my-folder' }));
+        const body = new TextEncoder().encode(JSON.stringify({ status: 'Success', data, count: services.length }));
+        return { status: 200, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body.buffer };
+      },
+    };
+    const client = new Spark({
+      baseUrl: 'https://excel.test.coherent.global/my-tenant',
+      apiKey: 'open',
+      logger: false,
+      transport,
+    });
+
+    const found = await client.service.get('my-folder/my-service');
+    expect(found.data.data).toMatchObject({ serviceName: 'my-service' });
+    expect(requests.map(({ body }) => JSON.parse(body).page)).toEqual([1, 2]);
+  });
+
+  it('should delete services and manage their versions', async () => {
+    const requests: TransportRequest[] = [];
+    const body = new TextEncoder().encode(JSON.stringify({ status: 'Success', data: null })).buffer;
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request);
+        return { status: 200, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body };
+      },
+    };
+    const client = new Spark({
+      baseUrl: 'https://excel.test.coherent.global/my-tenant',
+      apiKey: 'open',
+      logger: false,
+      transport,
+    });
+    const version = { folder: 'my-folder', service: 'my-service', versionId: 'my-version-id' };
+    const versionUrl =
+      'https://excel.test.coherent.global/api/v1/product/my-folder/engines/my-service/versions/my-version-id';
+
+    await client.service.versions.update({ ...version, startDate: '2024-01-01', label: 'v1', tags: ['a', 'b'] });
+    await client.service.versions.retire(version);
+    await client.service.versions.delete(version);
+    await client.service.delete('my-folder/my-service');
+
+    expect(requests.map(({ method, url }) => [method, url])).toEqual([
+      ['PATCH', versionUrl],
+      ['PATCH', versionUrl],
+      ['DELETE', versionUrl],
+      ['DELETE', 'https://excel.test.coherent.global/api/v1/product/my-folder/engines/delete/my-service'],
+    ]);
+    expect(JSON.parse(requests[0].body)).toEqual({
+      effectiveStartDate: '2024-01-01T00:00:00.000Z',
+      versionLabel: 'v1',
+      tags: 'a,b',
+    });
+    expect(Object.keys(JSON.parse(requests[1].body))).toEqual(['effectiveEndDate']);
+    await expect(client.service.versions.update(version)).rejects.toThrow(SparkSdkError);
+    await expect(client.service.versions.update({ ...version, startDate: 'someday' })).rejects.toThrow(
+      'invalid start date <someday>',
+    );
+    await expect(client.service.versions.update({ ...version, endDate: new Date(NaN) })).rejects.toThrow(SparkSdkError);
+    expect(requests).toHaveLength(4); // none of the invalid updates is sent
+  });
+
+  it('should validate the inputs against the service schema before executing it', async () => {
+    const swagger = JSON.parse(
+      fs.readFileSync(path.join(__dirname, '../../docs/samples/service-swagger.json'), 'utf8'),
+    );
+    const [, operation] = Object.entries<any>(swagger.paths).find(([key]) => key.endsWith('/execute'))!;
+    const schema = operation.post.parameters.find((param: any) => param.in === 'body').schema;
+    schema.properties.request_data.properties.inputs = {
+      type: 'object',
+      properties: { my_input: { type: 'integer', minimum: 0 } },
+      required: ['my_input'],
+    };
+
+    const urls: string[] = [];
+    const transport: Transport = {
+      async send({ url }) {
+        urls.push(url);
+        const data = url.includes('downloadswagger') ? swagger : { status: 'Success', response_data: {} };
+        const body = new TextEncoder().encode(JSON.stringify(data)).buffer;
+        return { status: 200, headers: { 'content-type': 'application/json' }, arrayBuffer: async () => body };
+      },
+    };
+    const client = new Spark({
+      baseUrl: 'https://excel.test.coherent.global/my-tenant',
+      apiKey: 'open',
+      logger: false,
+      validateInputs: true,
+      transport,
+    });
+
+    const error = await client.service.execute('my-folder/my-service', { inputs: { my_input: 'a' } }).catch((e) => e);
+    expect(error).toBeInstanceOf(SparkSdkError);
+    expect(error.message).toContain('inputs.my_input must be an integer');
+    expect(error.cause).toEqual([{ path: 'inputs.my_input', message: 'must be an integer', value: 'a' }]);
+
+    await client.service.execute('my-folder/my-service', { inputs: { my_input: 1 } });
+    await client.service.execute('my-folder/my-service', { inputs: {}, validateInputs: false });
+    await expect(
+      client.batch.execute('my-folder/my-service', { inputs: [{ my_input: 1 }, { my_input: -1 }, {}] }),
+    ).rejects.toMatchObject({
+      cause: [
+        { path: 'inputs[1].my_input', message: 'must be at least 0', value: -1 },
+        { path: 'inputs[2].my_input', message: 'is required' },
+      ],
+    });
+
+    // no swagger is available by semantic version: it is left to Spark to validate the inputs.
+    const pinned = { folder: 'my-folder', service: 'my-service', version: '1.0.0' };
+    await client.service.execute(pinned, { inputs: { my_input: 'a' } });
+
+    // the schema is fetched once, then reused; invalid inputs are never sent.
+    expect(urls.filter((url) => url.includes('downloadswagger'))).toHaveLength(1);
+    expect(urls.filter((url) => url.endsWith('/execute'))).toHaveLength(3);
+  });
 });
@@ -0,0 +1,52 @@
+import { SparkSdkError } from '@cspark/sdk';
+import { RetryPolicy } from '@cspark/sdk/retry';
+import { BadRequestError, ServiceUnavailableError } from '@cspark/sdk/error';
+
+describe('RetryPolicy', () => {
+  const ATTEMPT = { retries: 0, method: 'GET' as const, elapsed: 0 };
+
+  it('should retry transient failures of idempotent requests', () => {
+    const policy = new RetryPolicy(2, 1, { jitter: 'none' });
+    expect(policy.next({ ...ATTEMPT, status: 503 })).toBe(1000);
+    expect(policy.next({ ...ATTEMPT, status: 502, retries: 1 })).toBe(2000);
+    expect(policy.next({ ...ATTEMPT, error: new SparkSdkError({ message: 'socket hang up' }) })).toBe(1000);
+  });
+
+  it('should not retry non-transient failures or exhausted attempts', () => {
+    const policy = new RetryPolicy(2, 1);
+    expect(policy.next({ ...ATTEMPT, status: 400, error: new BadRequestError({ message: '' }) })).toBeUndefined();
+    expect(policy.next({ ...ATTEMPT, status: 503, retries: 2 })).toBeUndefined();
+  });
+
+  it('should only retry POST requests when marked as idempotent', () => {
+    const policy = new RetryPolicy(2, 1);
+    expect(policy.next({ ...ATTEMPT, method: 'POST', status: 503 })).toBeUndefined();
+    expect(policy.next({ ...ATTEMPT, method: 'POST', status: 503, idempotent: true })).toBeDefined();
+    expect(
+      new RetryPolicy(2, 1, { methods: ['POST'] }).next({ ...ATTEMPT, method: 'POST', status: 503 }),
+    ).toBeDefined();
+  });
+
+  it('should retry the configured statuses and errors only', () => {
+    const policy = new RetryPolicy(2, 1, { statuses: [], errors: [ServiceUnavailableError] });
+    expect(policy.next({ ...ATTEMPT, status: 504 })).toBeUndefined();
+    expect(policy.next({ ...ATTEMPT, error: new SparkSdkError({ message: 'socket hang up' }) })).toBeUndefined();
+    expect(policy.next({ ...ATTEMPT, status: 503, error: new ServiceUnavailableError({ message: '' }) })).toBeDefined();
+  });
+
+  it('should compute backoff delays within bounds', () => {
+    expect(new RetryPolicy(5, 1, { backoff: 'linear', jitter: 'none' }).getDelay(2)).toBe(3000);
+    expect(new RetryPolicy(5, 1, { backoff: 'constant', jitter: 'none' }).getDelay(4)).toBe(1000);
+    expect(new RetryPolicy(5, 1, { jitter: 'none', maxDelay: 5000 }).getDelay(4)).toBe(5000);
+
+    const delay = new RetryPolicy(5, 1, { jitter: 'equal' }).getDelay(1);
+    expect(delay).toBeGreaterThanOrEqual(1000);
+    expect(delay).toBeLessThanOrEqual(2000);
+  });
+
+  it('should give up when the maximum elapsed time is exceeded', () => {
+    const policy = new RetryPolicy(5, 1, { jitter: 'none', maxElapsedTime: 10000 });
+    expect(policy.next({ ...ATTEMPT, status: 503, elapsed: 8000 })).toBe(1000);
+    expect(policy.next({ ...ATTEMPT, status: 503, elapsed: 9500 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import Spark from '@cspark/sdk';
+import { UploadProgress } from '@cspark/sdk/http';
+import { Transport, TransportRequest, NodeFetchTransport, NativeFetchTransport } from '@cspark/sdk/transport';
+import { Streamer } from '@cspark/sdk/streaming';
+import LocalServer, { TestBaseUrl } from './resources/_server';
+
+describe('Transport', () => {
+  const localSever = new LocalServer();
+
+  beforeAll(async () => {
+    await localSever.start();
+  });
+
+  afterAll(async () => {
+    return localSever.stop();
+  });
+
+  it('should send fully built requests through a custom transport', async () => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      async send(request) {
+        requests.push(request);
+        const body = new TextEncoder().encode(JSON.stringify({ status: 'Success', data: [] }));
+        return {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          arrayBuffer: async () => body.buffer,
+        };
+      },
+    };
+
+    const spark = new Spark({ baseUrl: 'https://excel.test.coherent.global/my-tenant', apiKey: 'my-key', transport });
+    const res = await spark.folder.getCategories();
+
+    expect(res.status).toBe(200);
+    expect(res.data.status).toBe('Success');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('https://excel.test.coherent.global/api/v1/lookup/getcategories');
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].headers).toHaveProperty('x-synthetic-key', 'my-key');
+    expect(requests[0].timeout).toBe(spark.config.timeout);
+  });
+
+  it.each([new NodeFetchTransport(), new NativeFetchTransport()])(
+    'should normalize responses of built-in transports',
+    async (transport) => {
+      const spark = new Spark({
+        baseUrl: new TestBaseUrl(`http://${localSever.hostname}:${localSever.port}`, 'my-tenant'),
+        apiKey: 'open',
+        logger: false,
+        transport,
+      });
+      const res = await spark.folder.getCategories();
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toBe('application/json');
+      expect(res.data.data[0].key).toBe('Other');
+    },
+  );
+
+  it.each([new NodeFetchTransport(), new NativeFetchTransport()])(
+    'should stream non-JSON response bodies of built-in transports',
+    async (transport) => {
+      const spark = new Spark({
+        baseUrl: new TestBaseUrl(`http://${localSever.hostname}:${localSever.port}`, 'my-tenant'),
+        apiKey: 'open',
+        logger: false,
+        transport,
+      });
+      const res = await spark.service.download('my-folder/my-service');
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of res.buffer) chunks.push(Buffer.from(chunk));
+
+      expect(res.status).toBe(200);
+      expect(res.data).toBeNull();
+      expect(chunks.length).toBeGreaterThan(1); // i.e., not buffered beforehand
+      expect(Buffer.concat(chunks)).toHaveLength(256 * 1024);
+    },
+  );
+
+  it.each([new NodeFetchTransport(), new NativeFetchTransport()])(
+    'should time out or cancel stalled response bodies of built-in transports',
+    async (transport) => {
+      const spark = new Spark({
+        baseUrl: new TestBaseUrl(`http://${localSever.hostname}:${localSever.port}`, 'my-tenant'),
+        apiKey: 'open',
+        logger: false,
+        maxRetries: 0,
+        transport,
+      });
+
+      const execute = spark.service.execute('my-folder/stalled-service', { inputs: {} }, { timeout: 200 });
+      await expect(execute).rejects.toThrow(/timeout/i);
+
+      const controller = new AbortController();
+      const res = await spark.service.execute(
+        'my-folder/stalled-service',
+        { inputs: {} },
+        { stream: true, cancellationToken: controller.signal },
+      );
+      setTimeout(() => controller.abort(), 100);
+      await expect(Streamer.toBuffer(res.buffer)).rejects.toThrow();
+    },
+  );
+
+  it('should buffer response bodies unless streaming is enabled', async () => {
+    const body = new TextEncoder().encode(JSON.stringify({ status: 'Success', data: [] }));
+    const stream = { arrayBuffer: 0, body: 0 };
+    const transport: Transport = {
+      async send({ headers }) {
+        return {
+          status: 200,
+          headers: { 'content-type': headers['x-content-type'] },
+          arrayBuffer: async () => (stream.arrayBuffer++, body.buffer),
+          body: () => (stream.body++, Streamer.fromBuffer(body.buffer)),
+        };
+      },
+    };
+    const spark = new Spark({ baseUrl: 'https://excel.test.coherent.global/my-tenant', apiKey: 'open', transport });
+    const json = { 'x-content-type': 'application/json' };
+    const binary = { 'x-content-type': 'application/zip' };
+
+    expect((await spark.folder.getCategories({ headers: json })).data.status).toBe('Success');
+    expect((await spark.folder.getCategories({ headers: json, stream: true })).data).toBeNull();
+    expect((await spark.folder.getCategories({ headers: binary })).data).toBeNull();
+    await spark.folder.getCategories({ headers: binary, stream: true });
+
+    expect(stream).toEqual({ arrayBuffer: 2, body: 2 });
+  });
+
+  it.each([new NodeFetchTransport(), new NativeFetchTransport()])(
+    'should stream multipart uploads of built-in transports and report their progress',
+    async (transport) => {
+      const spark = new Spark({
+        baseUrl: new TestBaseUrl(`http://${localSever.hostname}:${localSever.port}`, 'my-tenant'),
+        apiKey: 'open',
+        logger: false,
+        transport,
+      });
+      const filePath = path.join(os.tmpdir(), `cover-${Date.now()}.png`);
+      fs.writeFileSync(filePath, Buffer.alloc(256 * 1024, 1));
+      const received = (res: { data: unknown }) =>
+        res.data as { received: number; contentLength: string | null; chunked: boolean };
+
+      try {
+        // a file read from disk has a known length...
+        const progress: UploadProgress[] = [];
+        const onUploadProgress = (p: UploadProgress) => progress.push(p);
+        const cover = { image: fs.createReadStream(filePath), fileName: 'cover.png' };
+        const sized = received(await spark.folder.uploadCover('folder-id', cover, { onUploadProgress }));
+        const last = progress[progress.length - 1];
+
+        expect(sized).toMatchObject({ contentLength: String(last.total), chunked: false });
+        expect(sized.received).toBeGreaterThan(256 * 1024);
+        expect(progress.length).toBeGreaterThan(1); // i.e., not buffered beforehand
+        expect(last.loaded).toBe(last.total);
+
+        // ...unlike an arbitrary stream, which is sent in chunks.
+        const chunks = [Buffer.alloc(1024, 1), Buffer.alloc(1024, 2)];
+        const unsized = received(await spark.folder.uploadCover('folder-id', { image: Readable.from(chunks) }));
+
+        expect(unsized).toMatchObject({ contentLength: null, chunked: true });
+        expect(unsized.received).toBeGreaterThan(2 * 1024);
+      } finally {
+        fs.unlinkSync(filePath);
+      }
+    },
+  );
+});
@@ -1,5 +1,5 @@
 import { SparkError } from '@cspark/sdk';
-import Validators from '@cspark/sdk/validators';
+import Validators, { SchemaValidator } from '@cspark/sdk/validators';
 
 describe('Validators', () => {
   it('should validate empty string', () => {
@@ -35,4 +35,35 @@ describe('Validators', () => {
     validator = Validators.baseUrl.getInstance();
     expect(validator.errors.length).toBe(0);
   });
+
+  it('should report every violation of a JSON schema', () => {
+    const validator = new SchemaValidator({
+      type: 'object',
+      properties: {
+        age: { type: 'integer', minimum: 18 },
+        name: { type: 'string', maxLength: 5, pattern: '^[A-Z]' },
+        plan: { enum: ['basic', 'premium'] },
+        kids: { type: 'array', items: { type: 'number', exclusiveMinimum: 0 } },
+        spouse: { type: 'object', nullable: true, properties: { age: { type: 'integer' } } },
+      },
+      required: ['age'],
+      additionalProperties: false,
+    });
+
+    expect(validator.check({ age: 30, name: 'Jane', plan: 'basic', kids: [3.5], spouse: null })).toEqual([]);
+    expect(validator.check({ name: 'johnny', plan: 'gold', kids: [0, '1'], spouse: { age: 1.5 }, pet: 'dog' })).toEqual(
+      [
+        { path: 'inputs.age', message: 'is required' },
+        { path: 'inputs.name', message: 'must have at most 5 characters', value: 'johnny' },
+        { path: 'inputs.name', message: 'must match the pattern ^[A-Z]', value: 'johnny' },
+        { path: 'inputs.plan', message: 'must be one of "basic", "premium"', value: 'gold' },
+        { path: 'inputs.kids[0]', message: 'must be greater than 0', value: 0 },
+        { path: 'inputs.kids[1]', message: 'must be a number', value: '1' },
+        { path: 'inputs.spouse.age', message: 'must be an integer', value: 1.5 },
+        { path: 'inputs.pet', message: 'is unknown' },
+      ],
+    );
+    expect(() => validator.validate({ age: '30' })).toThrow('invalid inputs (inputs.age must be an integer)');
+    expect(() => validator.validate({ age: 30 })).not.toThrow();
+  });
 });